@@ -0,0 +1,249 @@
+/**
+ * FallbackEffect - The effect handle used when WebGL cannot be created at all
+ *
+ * Draws with the Canvas2D renderer or the poster and keeps parameters, palette,
+ * presets, mask, fade and blend mode in sync with the API, so host code runs
+ * unchanged. Features that only exist on the GPU (sources, recording, export) throw
+ * or reject; attract mode and the scroll timeline drive nothing here and are ignored.
+ */
+
+import type { EffectParameters, InteractionMode, LifecycleState, PaletteStop, ThermalEffect, ThermalEffectConfig, ThermalEffectOptions } from './types'
+import { RenderFallback } from './components/RenderFallback'
+import { AssetLoader } from './components/AssetLoader'
+import { PresetManager } from './components/PresetManager'
+import { PARAMETER_RANGES } from './config/constants'
+import { getLayoutIssues } from './config/resolveConfig'
+import { clonePalette, getPaletteIssues } from './utils/palette'
+import { cloneLayout } from './utils/layout'
+import { buildShareUrl } from './utils/urlState'
+import { getRequiredElement } from './utils/dom'
+import { clamp } from './utils/math'
+
+export function createFallbackEffect(
+  element: HTMLElement,
+  effectConfig: ThermalEffectConfig,
+  options: ThermalEffectOptions,
+  reason: Error
+): ThermalEffect {
+  const parameters: EffectParameters = { ...effectConfig.defaultParameters }
+  let palette: PaletteStop[] = clonePalette(effectConfig.palette)
+  let layout = cloneLayout(effectConfig.layout)
+  let interactionMode: InteractionMode = effectConfig.interaction.mode
+  let started = effectConfig.lifecycle.autoStart
+  let paused = false
+  const presetManager = new PresetManager({ storageKey: effectConfig.presets.storageKey })
+
+  const unavailable = (feature: string) =>
+    new Error(`${feature} needs WebGL, which is unavailable: ${reason.message}`)
+
+  const loader = new AssetLoader({
+    config: effectConfig.loading,
+    element,
+    onChange: options.onLoadingChange
+  })
+  const fallback = new RenderFallback({
+    container: getRequiredElement('.webgl-canvas', element),
+    effectConfig,
+    mask: options.mask,
+    loader,
+    getParameters: () => parameters,
+    getPalette: () => palette,
+    onChange: options.onRenderStatusChange
+  })
+
+  const getLifecycleState = (): LifecycleState => !started ? 'stopped' : paused ? 'paused' : 'running'
+  const updateLifecycle = () => {
+    fallback.setRunning(started && !paused)
+    options.onLifecycleChange?.(getLifecycleState(), paused ? ['user'] : [])
+  }
+
+  const setParameters = (values: Partial<EffectParameters>) => {
+    Object.entries(values).forEach(([name, value]) => {
+      if (value === undefined) return
+      const range = PARAMETER_RANGES[name as keyof EffectParameters]
+      parameters[name as keyof EffectParameters] = range ? clamp(value, range.min, range.max) : value
+    })
+  }
+
+  const setPalette = (stops: readonly PaletteStop[]) => {
+    const issues = getPaletteIssues(stops)
+    if (issues.length > 0) {
+      throw new Error(`Invalid palette: ${issues.join('; ')}`)
+    }
+    palette = clonePalette(stops)
+  }
+
+  fallback.setRunning(started)
+  const ready = fallback.activate(reason)
+  element.classList.add('loaded')
+
+  return {
+    element,
+    ready,
+
+    setParameters,
+
+    getParameters() {
+      return { ...parameters }
+    },
+
+    setPalette,
+
+    getPalette() {
+      return clonePalette(palette)
+    },
+
+    // Presets apply instantly; there is no animation loop to blend them
+    applyPreset(name: string) {
+      const preset = presetManager.getPreset(name)
+      if (!preset) {
+        throw new Error(`Unknown preset: ${name}`)
+      }
+      setPalette(preset.palette)
+      setParameters(preset.parameters)
+    },
+
+    savePreset(name: string) {
+      return presetManager.savePreset({ name, parameters: { ...parameters }, palette: clonePalette(palette) })
+    },
+
+    getPresets() {
+      return presetManager.getPresets()
+    },
+
+    getShareUrl() {
+      const { mode, prefix } = effectConfig.urlState
+      return buildShareUrl(window.location.href, { parameters: { ...parameters }, palette: clonePalette(palette) }, mode, prefix)
+    },
+
+    setMask(source, maskOptions) {
+      return fallback.setMask(source, maskOptions)
+    },
+
+    setSource() {
+      return Promise.reject(unavailable('setSource'))
+    },
+
+    getSourceState() {
+      return 'error'
+    },
+
+    getActivePointers() {
+      return []
+    },
+
+    setInteractionMode(mode) {
+      interactionMode = mode
+    },
+
+    getInteractionMode() {
+      return interactionMode
+    },
+
+    // There is no heat trail for attract mode to draw into
+    setAttract() {},
+
+    isAttracting() {
+      return false
+    },
+
+    startRecording() {
+      throw unavailable('Recording')
+    },
+
+    stopRecording() {
+      throw unavailable('Recording')
+    },
+
+    replay() {
+      return Promise.reject(unavailable('Replay'))
+    },
+
+    stopReplay() {},
+
+    step() {
+      throw unavailable('step')
+    },
+
+    exportFrames() {
+      return Promise.reject(unavailable('Export'))
+    },
+
+    // Nothing on the canvas is keyframed; progress stays at 0
+    setScrollTimeline() {},
+
+    getScrollProgress() {
+      return 0
+    },
+
+    setLayout(next) {
+      const merged = cloneLayout({ ...layout, ...next })
+      const issues = getLayoutIssues(merged)
+      if (issues.length > 0) {
+        throw new Error(`Invalid layout: ${issues.join('; ')}`)
+      }
+      layout = merged
+      fallback.setLayout(layout)
+    },
+
+    getLayout() {
+      return cloneLayout(layout)
+    },
+
+    setBlendMode(mode) {
+      fallback.setBlendMode(mode)
+    },
+
+    getBlendMode() {
+      return fallback.getBlendMode()
+    },
+
+    start() {
+      if (started) return
+      started = true
+      updateLifecycle()
+    },
+
+    stop() {
+      if (!started) return
+      started = false
+      updateLifecycle()
+    },
+
+    pause() {
+      if (paused) return
+      paused = true
+      updateLifecycle()
+    },
+
+    resume() {
+      if (!paused) return
+      paused = false
+      updateLifecycle()
+    },
+
+    getLifecycleState,
+
+    getQuality() {
+      return { level: 0, levelCount: 1, pixelRatio: 1, drawTextureSize: 0, tier: 'low', fps: 0, refreshRate: 0 }
+    },
+
+    isContextLost() {
+      return false
+    },
+
+    getRenderStatus() {
+      return fallback.getStatus()
+    },
+
+    getLoadingState() {
+      return loader.getState()
+    },
+
+    dispose() {
+      loader.dispose()
+      fallback.dispose()
+      element.remove()
+    }
+  }
+}
@@ -0,0 +1,332 @@
+/**
+ * ThermalEffect - Embeddable entry point for the thermal logo effect
+ *
+ * Builds its own DOM inside the given container, so any number of
+ * instances can live on the same page. Falls back to a Canvas2D renderer
+ * or a poster image when WebGL or the base field is unavailable.
+ */
+
+import type { EffectParameters, ThermalEffect, ThermalEffectOptions } from './types'
+import { AppRenderer } from './renderer/AppRenderer'
+import { AppScene } from './scenes/AppScene'
+import { FrameExporter } from './components/FrameExporter'
+import { Lifecycle } from './components/Lifecycle'
+import { QualityGovernor } from './components/QualityGovernor'
+import { RenderFallback } from './components/RenderFallback'
+import { createFallbackEffect } from './FallbackEffect'
+import { createElementFromHTML, getRequiredElement, getOptionalElement } from './utils/dom'
+import { createEffectTemplate } from './utils/templates'
+import { resolveConfig } from './config/resolveConfig'
+
+// Used to give every instance unique element ids
+let instanceCount = 0
+
+/**
+ * Create a thermal effect inside `container`
+ *
+ * Throws ConfigValidationError before touching the DOM if the merged config is invalid.
+ */
+export function createThermalEffect(
+  container: HTMLElement,
+  options: ThermalEffectOptions = {}
+): ThermalEffect {
+  const effectConfig = resolveConfig({
+    ...options.config,
+    maskUrl: options.maskUrl ?? options.config?.maskUrl,
+    videoUrl: options.videoUrl ?? options.config?.videoUrl,
+    palette: options.palette ? [...options.palette] : options.config?.palette,
+    defaultParameters: { ...options.config?.defaultParameters, ...options.parameters }
+  })
+
+  const idPrefix = `thermal-effect-${++instanceCount}`
+
+  const element = createElementFromHTML(
+    createEffectTemplate({ controls: options.controls ?? true })
+  )
+  container.appendChild(element)
+
+  const canvasContainer = getRequiredElement('.webgl-canvas', element)
+
+  // Create renderer and scene
+  let renderer: AppRenderer
+  try {
+    renderer = new AppRenderer(canvasContainer, {
+      clock: effectConfig.clock,
+      transparent: effectConfig.output.transparent
+    })
+  } catch (error) {
+    if (!effectConfig.fallback.enabled) throw error
+    console.warn('WebGL is unavailable, using the fallback renderer:', error)
+    return createFallbackEffect(element, effectConfig, options, error instanceof Error ? error : new Error(String(error)))
+  }
+  renderer.setBlendMode(effectConfig.output.blendMode)
+
+  // Shown over the canvas while the mask, the base field or the WebGL context is missing
+  let maskError: Error | null = null
+  let sourceError: Error | null = null
+  const fallback = new RenderFallback({
+    container: canvasContainer,
+    effectConfig,
+    mask: options.mask,
+    getParameters: () => scene.getParameters(),
+    getPalette: () => scene.getPalette(),
+    onChange: options.onRenderStatusChange
+  })
+  const updateFallback = () => {
+    if (!effectConfig.fallback.enabled) return
+    const reason = renderer.isContextLost ? new Error('The WebGL context was lost') : maskError ?? sourceError
+    if (reason) {
+      fallback.activate(reason)
+    } else {
+      fallback.deactivate()
+    }
+  }
+
+  const scene = new AppScene(renderer, {
+    wrapper: element,
+    hitContainer: getRequiredElement('.interaction-area', element),
+    playButton: getOptionalElement<HTMLButtonElement>('.control-button', element),
+    hudContainer: options.hud ? container : null,
+    idPrefix,
+    mask: options.mask,
+    source: options.source,
+    onSourceStateChange: options.onSourceStateChange,
+    onSourceAvailabilityChange: (available, error) => {
+      sourceError = available ? null : error
+      updateFallback()
+    },
+    onLoadingChange: options.onLoadingChange,
+    effectConfig
+  })
+
+  // Connect renderer to scene
+  renderer.setScene(scene)
+  renderer.setCamera(scene.camera)
+  renderer.onUpdate = (deltaTime) => scene.update(deltaTime)
+
+  // Start at the highest quality the bounds allow and adapt to the measured frame rate
+  const governor = new QualityGovernor({
+    config: effectConfig.quality,
+    maxPixelRatio: window.devicePixelRatio || 1,
+    maxDrawTextureSize: effectConfig.drawRenderer.textureSize,
+    onChange: quality => {
+      scene.setQuality(quality)
+      options.onQualityChange?.(quality)
+    }
+  })
+  scene.setQuality(governor.getQuality())
+  renderer.onFrame = (frameTime) => governor.sample(frameTime)
+
+  const lifecycle = new Lifecycle({
+    element,
+    renderer,
+    scene,
+    config: effectConfig.lifecycle,
+    onChange: (state, reasons) => {
+      // The fallback keeps animating while only what it stands in for holds the effect
+      fallback.setRunning(state !== 'stopped' && reasons.every(reason => reason === 'contextLost' || reason === 'maskFailed'))
+      // Frames around a pause say nothing about load, e.g. a throttled tab being hidden
+      if (state === 'running') governor.restart()
+      options.onLifecycleChange?.(state, reasons)
+    }
+  })
+  // Hold the effect while the GPU is gone and rebuild it once the context is back
+  renderer.onContextLost = () => {
+    lifecycle.pause('contextLost')
+    updateFallback()
+    options.onContextLost?.()
+  }
+  renderer.onContextRestored = () => {
+    scene.restoreContext()
+    lifecycle.resume('contextLost')
+    updateFallback()
+    options.onContextRestored?.()
+  }
+
+  // Load assets, create materials and set up interactions. Without a mask the
+  // WebGL loop holds until setMask() succeeds, leaving the fallback in front
+  const ready = scene.init()
+  ready.catch((error: unknown) => {
+    maskError = error instanceof Error ? error : new Error(String(error))
+    lifecycle.pause('maskFailed')
+    updateFallback()
+  })
+  const exporter = new FrameExporter({ renderer, scene, lifecycle })
+
+  let disposed = false
+
+  return {
+    element,
+    ready,
+
+    setParameters(parameters: Partial<EffectParameters>) {
+      scene.setParameters(parameters)
+    },
+
+    getParameters() {
+      return scene.getParameters()
+    },
+
+    setPalette(stops) {
+      scene.setPalette(stops)
+    },
+
+    getPalette() {
+      return scene.getPalette()
+    },
+
+    applyPreset(name: string, duration?: number) {
+      scene.applyPreset(name, duration)
+    },
+
+    savePreset(name: string) {
+      return scene.savePreset(name)
+    },
+
+    getPresets() {
+      return scene.getPresets()
+    },
+
+    getShareUrl() {
+      return scene.getShareUrl()
+    },
+
+    setMask(source, maskOptions) {
+      fallback.setMask(source, maskOptions).catch(error => {
+        console.warn('Failed to update the fallback mask:', error)
+      })
+      return scene.setMask(source, maskOptions).then(() => {
+        maskError = null
+        lifecycle.resume('maskFailed')
+        updateFallback()
+      })
+    },
+
+    setSource(source) {
+      return scene.setSource(source)
+    },
+
+    getSourceState() {
+      return scene.getSourceState()
+    },
+
+    getActivePointers() {
+      return scene.getActivePointers()
+    },
+
+    setInteractionMode(mode) {
+      scene.setInteractionMode(mode)
+    },
+
+    getInteractionMode() {
+      return scene.getInteractionMode()
+    },
+
+    setAttract(options) {
+      scene.setAttract(options)
+    },
+
+    isAttracting() {
+      return scene.isAttracting()
+    },
+
+    startRecording() {
+      scene.startRecording()
+    },
+
+    stopRecording() {
+      return scene.stopRecording()
+    },
+
+    replay(recording, options) {
+      return scene.replay(recording, options)
+    },
+
+    stopReplay() {
+      scene.stopReplay()
+    },
+
+    step(deltaTime: number) {
+      renderer.step(deltaTime)
+    },
+
+    setScrollTimeline(timeline) {
+      scene.setScrollTimeline(timeline)
+    },
+
+    getScrollProgress() {
+      return scene.getScrollProgress()
+    },
+
+    setLayout(layout) {
+      scene.setLayout(layout)
+      fallback.setLayout(scene.getLayout())
+    },
+
+    getLayout() {
+      return scene.getLayout()
+    },
+
+    setBlendMode(mode) {
+      renderer.setBlendMode(mode)
+      fallback.setBlendMode(mode)
+    },
+
+    getBlendMode() {
+      return renderer.getBlendMode()
+    },
+
+    async exportFrames(exportOptions) {
+      await ready
+      return exporter.export(exportOptions)
+    },
+
+    start() {
+      lifecycle.start()
+    },
+
+    stop() {
+      lifecycle.stop()
+    },
+
+    pause() {
+      lifecycle.pause()
+    },
+
+    resume() {
+      lifecycle.resume()
+    },
+
+    getLifecycleState() {
+      return lifecycle.getState()
+    },
+
+    getQuality() {
+      return governor.getQuality()
+    },
+
+    isContextLost() {
+      return renderer.isContextLost
+    },
+
+    getRenderStatus() {
+      return fallback.getStatus()
+    },
+
+    getLoadingState() {
+      return scene.getLoadingState()
+    },
+
+    dispose() {
+      if (disposed) return
+      disposed = true
+
+      lifecycle.dispose()
+      governor.dispose()
+      fallback.dispose()
+      renderer.dispose()
+      scene.dispose()
+      element.remove()
+    }
+  }
+}
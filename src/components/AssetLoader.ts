@@ -0,0 +1,115 @@
+/**
+ * AssetLoader - Loads the effect's assets with retries and reports combined progress
+ *
+ * Every load made through one loader counts toward a single LoadingState. Loads started
+ * while nothing is pending begin a new round, so progress restarts from zero when an
+ * asset is swapped at runtime. Aborted loads (a source dropped mid-load) leave the total.
+ *
+ * The optional element mirrors the state for CSS: `data-loading` holds the phase and
+ * `--loading-progress` the settled fraction, so pages can style a loading indicator.
+ */
+
+import * as THREE from 'three'
+import type { AssetUrl, Disposable, LoadingState, LoadingStateHandler, ThermalEffectConfig } from '../types'
+import { AssetLoadError, loadImage, loadTexture, loadVideo, waitForVideoData } from '../utils/assets'
+
+interface AssetLoaderConfig {
+  config: ThermalEffectConfig['loading']
+  element?: HTMLElement
+  onChange?: LoadingStateHandler
+}
+
+export class AssetLoader implements Disposable {
+  private config: ThermalEffectConfig['loading']
+  private element: HTMLElement | null
+  private onChange: AssetLoaderConfig['onChange']
+  private pending = 0
+  private loaded = 0
+  private total = 0
+  private errors: AssetLoadError[] = []
+
+  constructor(config: AssetLoaderConfig) {
+    this.config = config.config
+    this.element = config.element ?? null
+    this.onChange = config.onChange
+  }
+
+  loadImage(url: AssetUrl, signal?: AbortSignal): Promise<HTMLImageElement> {
+    return this.track(loadImage(url, this.config, signal))
+  }
+
+  loadTexture(url: AssetUrl, signal?: AbortSignal): Promise<THREE.Texture> {
+    return this.track(loadTexture(url, this.config, signal))
+  }
+
+  loadVideo(video: HTMLVideoElement, url: AssetUrl, signal?: AbortSignal): Promise<void> {
+    return this.track(loadVideo(video, url, this.config, signal))
+  }
+
+  /**
+   * Wait for a video whose source is already set, e.g. a camera stream
+   */
+  waitForVideo(video: HTMLVideoElement, signal?: AbortSignal): Promise<void> {
+    return this.track(waitForVideoData(video, this.config.timeout, signal))
+  }
+
+  getState(): LoadingState {
+    const settled = this.loaded + this.errors.length
+    return {
+      phase: this.pending > 0 ? 'loading' : this.total === 0 ? 'idle' : this.errors.length > 0 ? 'error' : 'ready',
+      loaded: this.loaded,
+      total: this.total,
+      progress: this.total > 0 ? settled / this.total : 1,
+      errors: [...this.errors]
+    }
+  }
+
+  private track<T>(loading: Promise<T>): Promise<T> {
+    if (this.pending === 0) {
+      this.loaded = 0
+      this.total = 0
+      this.errors = []
+    }
+    this.pending++
+    this.total++
+    this.emit()
+
+    return loading.then(
+      value => {
+        this.pending--
+        this.loaded++
+        this.emit()
+        return value
+      },
+      (error: unknown) => {
+        this.pending--
+        if (error instanceof AssetLoadError && error.code === 'aborted') {
+          this.total--
+        } else {
+          this.errors.push(error instanceof AssetLoadError
+            ? error
+            : new AssetLoadError(error instanceof Error ? error.message : String(error), '', 'network'))
+        }
+        this.emit()
+        throw error
+      }
+    )
+  }
+
+  private emit(): void {
+    const state = this.getState()
+    if (this.element) {
+      this.element.dataset.loading = state.phase
+      this.element.style.setProperty('--loading-progress', String(state.progress))
+    }
+    this.onChange?.(state)
+  }
+
+  /**
+   * Stop reporting; loads still in flight settle silently
+   */
+  dispose(): void {
+    this.element = null
+    this.onChange = undefined
+  }
+}
@@ -0,0 +1,147 @@
+/**
+ * AttractMode - Moves a virtual pointer along a pattern once the effect has been idle
+ */
+
+import type { ThermalEffectConfig } from '../types'
+import { ATTRACT } from '../config/constants'
+import { clamp, lerp, lerpSpeed } from '../utils/math'
+
+type AttractConfig = ThermalEffectConfig['attract']
+
+export class AttractMode {
+  private config: AttractConfig
+  private random: () => number
+  private idleTime = 0
+  private active = false
+
+  // Pattern state
+  private time = 0
+  private distance = 0
+  private walk = { x: 0, y: 0, heading: 0, turn: 0 }
+  private segmentLengths: number[] = []
+  private pathLength = 0
+
+  constructor(config: AttractConfig, random: () => number = Math.random) {
+    this.config = config
+    this.random = random
+    this.measurePath()
+    this.walk.heading = this.random() * Math.PI * 2
+  }
+
+  /**
+   * Update settings; the idle timer keeps running
+   */
+  setConfig(config: Partial<AttractConfig>): void {
+    this.config = { ...this.config, ...config }
+    this.measurePath()
+    if (!this.config.enabled) this.active = false
+  }
+
+  getConfig(): Readonly<AttractConfig> {
+    return this.config
+  }
+
+  /**
+   * Real input arrived: stop immediately and restart the idle countdown
+   */
+  notifyInput(): void {
+    this.idleTime = 0
+    this.active = false
+  }
+
+  isActive(): boolean {
+    return this.active
+  }
+
+  /**
+   * Advance the idle timer and the pattern. Returns the virtual pointer position in
+   * NDC while attract mode is running, otherwise null.
+   */
+  update(deltaTime: number): { x: number; y: number } | null {
+    if (!this.config.enabled) {
+      this.active = false
+      return null
+    }
+
+    this.idleTime += deltaTime
+    if (this.idleTime < this.config.idleDelay) return null
+
+    this.active = true
+    switch (this.config.pattern) {
+      case 'lissajous':
+        return this.sampleLissajous(deltaTime)
+      case 'randomWalk':
+        return this.sampleRandomWalk(deltaTime)
+      case 'path':
+        return this.samplePath(deltaTime)
+    }
+  }
+
+  private sampleLissajous(deltaTime: number): { x: number; y: number } {
+    const { amplitude, frequencies, speed } = this.config
+    const [fx, fy] = frequencies
+
+    // Angular rate chosen so the pointer travels at roughly `speed`
+    this.time += deltaTime * speed / Math.max(amplitude * Math.max(fx, fy, 1), 1e-3)
+    return {
+      x: amplitude * Math.sin(fx * this.time + Math.PI / 2),
+      y: amplitude * Math.sin(fy * this.time)
+    }
+  }
+
+  private sampleRandomWalk(deltaTime: number): { x: number; y: number } {
+    const { amplitude, speed } = this.config
+    const walk = this.walk
+
+    // Ease the turn rate towards a new random value so the heading wanders smoothly
+    const turnTarget = (this.random() * 2 - 1) * ATTRACT.WALK_TURN_RATE
+    walk.turn = lerp(walk.turn, turnTarget, lerpSpeed(0.05, deltaTime))
+    walk.heading += walk.turn * deltaTime
+
+    walk.x += Math.cos(walk.heading) * speed * deltaTime
+    walk.y += Math.sin(walk.heading) * speed * deltaTime
+
+    // Bounce off the edges of the pattern area
+    if (Math.abs(walk.x) > amplitude) {
+      walk.x = clamp(walk.x, -amplitude, amplitude)
+      walk.heading = Math.PI - walk.heading
+    }
+    if (Math.abs(walk.y) > amplitude) {
+      walk.y = clamp(walk.y, -amplitude, amplitude)
+      walk.heading = -walk.heading
+    }
+
+    return { x: walk.x, y: walk.y }
+  }
+
+  private samplePath(deltaTime: number): { x: number; y: number } {
+    const { path, speed } = this.config
+    if (path.length === 0) return { x: 0, y: 0 }
+    if (this.pathLength === 0) return { x: path[0][0], y: path[0][1] }
+
+    // Walk the closed loop at constant speed
+    this.distance = (this.distance + speed * deltaTime) % this.pathLength
+    let remaining = this.distance
+    for (let i = 0; i < path.length; i++) {
+      const length = this.segmentLengths[i]
+      if (remaining <= length && length > 0) {
+        const [x0, y0] = path[i]
+        const [x1, y1] = path[(i + 1) % path.length]
+        const t = remaining / length
+        return { x: lerp(x0, x1, t), y: lerp(y0, y1, t) }
+      }
+      remaining -= length
+    }
+    return { x: path[0][0], y: path[0][1] }
+  }
+
+  private measurePath(): void {
+    const { path } = this.config
+    this.segmentLengths = path.map(([x0, y0], i) => {
+      const [x1, y1] = path[(i + 1) % path.length]
+      return Math.hypot(x1 - x0, y1 - y0)
+    })
+    this.pathLength = this.segmentLengths.reduce((sum, length) => sum + length, 0)
+    this.distance = this.pathLength > 0 ? this.distance % this.pathLength : 0
+  }
+}
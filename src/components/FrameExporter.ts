@@ -0,0 +1,282 @@
+/**
+ * FrameExporter - Renders the effect offline at a fixed size and frame rate
+ *
+ * The animation loop is stopped and every frame is produced with a manual step of
+ * exactly 1/fps seconds, so slow frames never drop and the cursor is never in shot.
+ * WebM is encoded with WebCodecs, which stamps frame i at exactly i/fps seconds. Where
+ * VideoEncoder is missing, MediaRecorder is the fallback: it stamps frames by wall time,
+ * so a slow frame or seek shows up as uneven timing in the file.
+ */
+
+import type { ExportOptions } from '../types'
+import type { AppRenderer } from '../renderer/AppRenderer'
+import type { AppScene } from '../scenes/AppScene'
+import type { Lifecycle } from './Lifecycle'
+import type { ZipEntry } from '../utils/zip'
+import type { WebMFrame } from '../utils/webm'
+import { EXPORT_CONFIG } from '../config/constants'
+import { createZip } from '../utils/zip'
+import { createWebM } from '../utils/webm'
+
+interface FrameExporterConfig {
+  renderer: AppRenderer
+  scene: AppScene
+  lifecycle: Lifecycle
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(blob)
+      else reject(new Error('Could not encode frame as PNG'))
+    }, 'image/png')
+  })
+}
+
+function wait(milliseconds: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, milliseconds))
+}
+
+function waitUntilVisible(): Promise<void> {
+  return new Promise(resolve => {
+    const handleChange = () => {
+      if (document.hidden) return
+      document.removeEventListener('visibilitychange', handleChange)
+      resolve()
+    }
+    document.addEventListener('visibilitychange', handleChange)
+    handleChange()
+  })
+}
+
+export class FrameExporter {
+  private renderer: AppRenderer
+  private scene: AppScene
+  private lifecycle: Lifecycle
+  private exporting = false
+
+  constructor(config: FrameExporterConfig) {
+    this.renderer = config.renderer
+    this.scene = config.scene
+    this.lifecycle = config.lifecycle
+  }
+
+  get isExporting(): boolean { return this.exporting }
+
+  /**
+   * Render `options.duration` seconds of frames and encode them. The on-screen
+   * effect is frozen while exporting and picks up where it was afterwards.
+   */
+  async export(options: ExportOptions): Promise<Blob> {
+    if (this.exporting) {
+      throw new Error('An export is already running')
+    }
+    if (this.renderer.isContextLost) {
+      throw new Error('Cannot export while the WebGL context is lost')
+    }
+
+    const fps = options.fps ?? EXPORT_CONFIG.FPS
+    const format = options.format ?? EXPORT_CONFIG.FORMAT
+    const duration = options.duration ??
+      (options.recording ? options.recording.duration / 1000 : EXPORT_CONFIG.DURATION)
+    const { width, height } = options
+
+    if (!Number.isInteger(width) || width <= 0 || !Number.isInteger(height) || height <= 0) {
+      throw new Error(`Export size must be positive whole pixels (got ${width}x${height})`)
+    }
+    if (!(fps > 0) || !(duration > 0)) {
+      throw new Error('Export fps and duration must be positive')
+    }
+
+    const totalFrames = Math.max(1, Math.round(duration * fps))
+    this.exporting = true
+    this.lifecycle.pause('export')
+    this.scene.setLiveInput(false)
+    this.scene.beginOfflineRender()
+    this.renderer.setFixedSize({ width, height })
+
+    try {
+      if (options.recording) {
+        this.scene.replay(options.recording).catch(error => {
+          console.warn('Export replay failed:', error)
+        })
+      }
+
+      return format === 'webm'
+        ? await this.renderWebM(fps, totalFrames, options)
+        : await this.renderPngSequence(fps, totalFrames, options)
+    } finally {
+      this.scene.stopReplay()
+      this.renderer.setFixedSize(null)
+      this.scene.endOfflineRender()
+      this.scene.setLiveInput(true)
+      this.lifecycle.resume('export')
+      this.exporting = false
+    }
+  }
+
+  private async renderPngSequence(fps: number, totalFrames: number, options: ExportOptions): Promise<Blob> {
+    const canvas = this.renderer.renderer.domElement
+    const digits = Math.max(5, String(totalFrames).length)
+    const entries: ZipEntry[] = []
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      options.signal?.throwIfAborted()
+
+      await this.stepFrame(fps)
+      // toBlob snapshots the drawing buffer immediately, before it is cleared
+      const blob = await canvasToBlob(canvas)
+      entries.push({
+        name: `frame-${String(frame + 1).padStart(digits, '0')}.png`,
+        data: new Uint8Array(await blob.arrayBuffer())
+      })
+      options.onProgress?.(frame + 1, totalFrames)
+    }
+
+    return createZip(entries)
+  }
+
+  /**
+   * Simulate one frame, wait for the video seek it caused, then draw it
+   */
+  private async stepFrame(fps: number): Promise<void> {
+    this.renderer.simulateStep(1 / fps)
+    await this.scene.whenSourceFrameReady()
+    this.renderer.render()
+  }
+
+  private async renderWebM(fps: number, totalFrames: number, options: ExportOptions): Promise<Blob> {
+    if (typeof VideoEncoder !== 'undefined') {
+      const encoding = await this.findEncoding(fps, options)
+      if (encoding) return this.encodeWebM(encoding, fps, totalFrames, options)
+    }
+    return this.recordWebM(fps, totalFrames, options)
+  }
+
+  /**
+   * Pick the first WebCodecs encoding this browser supports at the export size
+   */
+  private async findEncoding(fps: number, options: ExportOptions): Promise<{ config: VideoEncoderConfig; codecId: string } | null> {
+    for (const { codec, codecId } of EXPORT_CONFIG.WEBCODECS_CODECS) {
+      const config: VideoEncoderConfig = {
+        codec,
+        width: options.width,
+        height: options.height,
+        framerate: fps,
+        bitrate: options.videoBitsPerSecond ?? EXPORT_CONFIG.VIDEO_BITS_PER_SECOND
+      }
+      const support = await VideoEncoder.isConfigSupported(config).catch(() => null)
+      if (support?.supported) return { config, codecId }
+    }
+    return null
+  }
+
+  private async encodeWebM(
+    encoding: { config: VideoEncoderConfig; codecId: string },
+    fps: number,
+    totalFrames: number,
+    options: ExportOptions
+  ): Promise<Blob> {
+    const canvas = this.renderer.renderer.domElement
+    const frames: WebMFrame[] = []
+    let encodeError: Error | null = null
+    const encoder = new VideoEncoder({
+      output: chunk => {
+        const data = new Uint8Array(chunk.byteLength)
+        chunk.copyTo(data)
+        frames.push({ data, timestamp: chunk.timestamp, keyFrame: chunk.type === 'key' })
+      },
+      error: error => {
+        encodeError = error
+      }
+    })
+    encoder.configure(encoding.config)
+
+    const keyFrameInterval = Math.max(1, Math.round(EXPORT_CONFIG.KEY_FRAME_INTERVAL * fps))
+    try {
+      for (let frame = 0; frame < totalFrames; frame++) {
+        options.signal?.throwIfAborted()
+        if (encodeError) throw encodeError
+
+        await this.stepFrame(fps)
+        // Timestamps come from the frame index, never from how long rendering took
+        const videoFrame = new VideoFrame(canvas, {
+          timestamp: Math.round(frame * 1e6 / fps),
+          duration: Math.round(1e6 / fps)
+        })
+        encoder.encode(videoFrame, { keyFrame: frame % keyFrameInterval === 0 })
+        videoFrame.close()
+        options.onProgress?.(frame + 1, totalFrames)
+
+        while (encoder.encodeQueueSize > EXPORT_CONFIG.MAX_ENCODE_QUEUE) {
+          await new Promise(resolve => encoder.addEventListener('dequeue', resolve, { once: true }))
+        }
+      }
+      await encoder.flush()
+      if (encodeError) throw encodeError
+    } finally {
+      if (encoder.state !== 'closed') encoder.close()
+    }
+
+    const { width, height } = options
+    return createWebM({ codecId: encoding.codecId, width, height, fps }, frames)
+  }
+
+  /**
+   * Fallback for browsers without WebCodecs; frame timing follows the wall clock
+   */
+  private async recordWebM(fps: number, totalFrames: number, options: ExportOptions): Promise<Blob> {
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error('WebM export needs WebCodecs or MediaRecorder, which this browser does not support')
+    }
+    const mimeType = EXPORT_CONFIG.WEBM_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type))
+    if (!mimeType) {
+      throw new Error('This browser cannot record WebM video')
+    }
+
+    // A zero frame rate stream only emits the frames we request
+    const stream = this.renderer.renderer.domElement.captureStream(0)
+    const track = stream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack
+    const recorder = new MediaRecorder(stream, {
+      mimeType,
+      videoBitsPerSecond: options.videoBitsPerSecond ?? EXPORT_CONFIG.VIDEO_BITS_PER_SECOND
+    })
+    const chunks: Blob[] = []
+    recorder.addEventListener('dataavailable', event => {
+      if (event.data.size > 0) chunks.push(event.data)
+    })
+    const stopped = new Promise<void>(resolve => recorder.addEventListener('stop', () => resolve(), { once: true }))
+
+    // MediaRecorder timestamps frames by wall time as they arrive, so frames are handed
+    // over on a fixed schedule. Hidden tabs throttle timers; recording pauses until the
+    // tab is visible again so the gap never reaches the file.
+    const frameInterval = 1000 / fps
+    let nextFrameTime = performance.now()
+
+    recorder.start()
+    try {
+      for (let frame = 0; frame < totalFrames; frame++) {
+        options.signal?.throwIfAborted()
+
+        if (document.hidden) {
+          recorder.pause()
+          await waitUntilVisible()
+          recorder.resume()
+          nextFrameTime = performance.now()
+        }
+        await this.stepFrame(fps)
+        track.requestFrame()
+        options.onProgress?.(frame + 1, totalFrames)
+
+        nextFrameTime += frameInterval
+        await wait(Math.max(0, nextFrameTime - performance.now()))
+      }
+    } finally {
+      recorder.stop()
+      await stopped
+      track.stop()
+    }
+
+    return new Blob(chunks, { type: mimeType })
+  }
+}
@@ -3,15 +3,55 @@
  */
 
 import * as THREE from 'three'
-import type { Disposable, InteractionState, MouseState } from '../types'
-import { screenToNDC, calculateMovementDelta } from '../utils/math'
+import type { ActivePointer, Disposable, InteractionMode, InteractionState, MouseState } from '../types'
+import { clamp, lerp } from '../utils/math'
 import { addEventListenerWithCleanup } from '../utils/dom'
 
+// Weight of each new speed sample; smooths out jittery event timing
+const SPEED_SMOOTHING = 0.5
+
+/**
+ * Pressure in 0-1; mice report 0 or 0.5 depending on buttons, so they read as a constant 0.5
+ */
+function readPressure(event: PointerEvent): number {
+  return event.pointerType === 'mouse' ? 0.5 : clamp(event.pressure, 0, 1)
+}
+
+/**
+ * Tilt away from vertical in 0-1 (0 = upright, 1 = flat)
+ */
+function readTilt(event: PointerEvent): number {
+  return clamp(Math.hypot(event.tiltX || 0, event.tiltY || 0) / 90, 0, 1)
+}
+
 interface InteractionManagerConfig {
   container: HTMLElement
   hitContainer?: HTMLElement
-  onPositionUpdate: (position: THREE.Vector3, direction: { x: number; y: number }) => void
+  mode?: InteractionMode
+  onPositionUpdate: (
+    position: THREE.Vector3,
+    direction: { x: number; y: number },
+    pointer: Readonly<InteractionState>
+  ) => void
+  // Called when the first pointer starts or the last pointer stops interacting
   onInteractionChange: (isInteracting: boolean) => void
+  // Called on every real (not virtual) pointer event
+  onInput?: () => void
+  // Called whenever a single pointer starts or stops interacting
+  onHoldChange?: (pointer: Readonly<InteractionState>) => void
+}
+
+// A move as captured by InteractionRecorder; position in NDC, time in ms
+export interface RecordedMove {
+  id: number
+  pointerType: string
+  x: number
+  y: number
+  direction: { x: number; y: number }
+  pressure: number
+  tilt: number
+  speed: number
+  time: number
 }
 
 export class InteractionManager implements Disposable {
@@ -19,16 +59,25 @@ export class InteractionManager implements Disposable {
   private hitContainer: HTMLElement
   private onPositionUpdate: InteractionManagerConfig['onPositionUpdate']
   private onInteractionChange: InteractionManagerConfig['onInteractionChange']
+  private onInput: InteractionManagerConfig['onInput']
+  private onHoldChange: InteractionManagerConfig['onHoldChange']
   
+  // Most recently moved pointer, for consumers that follow a single cursor
   private mouseState: MouseState
-  private interactionState: InteractionState
-  private cleanupFunctions: Array<() => void> = []
+  private pointers = new Map<number, InteractionState>()
+  private interacting = false
+  private mode: InteractionMode
+  private liveInput = true
+  private modeCleanupFunctions: Array<() => void> = []
 
   constructor(config: InteractionManagerConfig) {
     this.container = config.container
     this.hitContainer = config.hitContainer || config.container
+    this.mode = config.mode ?? 'hover'
     this.onPositionUpdate = config.onPositionUpdate
     this.onInteractionChange = config.onInteractionChange
+    this.onInput = config.onInput
+    this.onHoldChange = config.onHoldChange
     
     // Initialize state
     this.mouseState = {
@@ -36,158 +85,360 @@ export class InteractionManager implements Disposable {
       target: new THREE.Vector3(0, 0, 0)
     }
     
-    this.interactionState = {
-      hold: false,
-      heatUp: 0,
-      lastNX: 0.5,
-      lastNY: 0.5
-    }
-    
-    this.setupEventListeners()
-  }
-
-  private setupEventListeners(): void {
-    // Local interaction events
-    this.setupLocalEvents()
-    
-    // Global events for consistent tracking
-    this.setupGlobalEvents()
+    this.setupModeEvents()
   }
 
-  private setupLocalEvents(): void {
-    const elements = [this.hitContainer]
-    if (this.container !== this.hitContainer) {
-      elements.push(this.container)
+  private setupModeEvents(): void {
+    const listen = (target: EventTarget, type: string, handler: (event: Event) => void) => {
+      this.modeCleanupFunctions.push(addEventListenerWithCleanup(target, type, handler, { passive: true }))
     }
 
-    elements.forEach(element => {
-      this.cleanupFunctions.push(
-        addEventListenerWithCleanup(element, 'pointermove', this.handlePointerMove),
-        addEventListenerWithCleanup(element, 'pointerdown', this.handlePointerDown),
-        addEventListenerWithCleanup(element, 'pointerenter', this.handlePointerEnter),
-        addEventListenerWithCleanup(element, 'pointerup', this.handlePointerUp),
-        addEventListenerWithCleanup(element, 'pointerleave', this.handlePointerLeave)
-      )
-    })
-  }
+    switch (this.mode) {
+      case 'hover':
+        // Held while the pointer is over the hit area (or a finger is down on it)
+        listen(this.hitContainer, 'pointerenter', this.handlePointerEnter)
+        listen(this.hitContainer, 'pointermove', this.handlePointerMove)
+        listen(this.hitContainer, 'pointerdown', this.handlePointerDown)
+        listen(this.hitContainer, 'pointerup', this.handleHoverPointerUp)
+        listen(this.hitContainer, 'pointerleave', this.handlePointerRelease)
+        listen(this.hitContainer, 'pointercancel', this.handlePointerRelease)
+        break
 
-  private setupGlobalEvents(): void {
-    // Global pointer tracking for cases where local events might be blocked
-    this.cleanupFunctions.push(
-      addEventListenerWithCleanup(
-        window, 
-        'pointermove', 
-        this.handleGlobalPointerMove,
-        { passive: true }
-      ),
-      addEventListenerWithCleanup(
-        window,
-        'scroll',
-        this.handleScroll,
-        { passive: true }
-      )
-    )
+      case 'press':
+        // Held from pointerdown until the press ends, even if the pointer leaves the hit area
+        listen(this.hitContainer, 'pointerdown', this.handlePressPointerDown)
+        listen(this.hitContainer, 'pointermove', this.handlePressPointerMove)
+        listen(this.hitContainer, 'pointerup', this.handlePointerRelease)
+        listen(this.hitContainer, 'pointercancel', this.handlePointerRelease)
+        listen(this.hitContainer, 'lostpointercapture', this.handlePointerRelease)
+        break
+
+      case 'global':
+        // Follow the cursor anywhere on the page until it leaves the window
+        listen(window, 'pointermove', this.handleGlobalPointerMove)
+        listen(window, 'pointerdown', this.handleGlobalPointerMove)
+        listen(window, 'pointerup', this.handleHoverPointerUp)
+        listen(window, 'pointercancel', this.handlePointerRelease)
+        listen(document, 'pointerout', this.handleDocumentPointerOut)
+        listen(window, 'blur', this.releaseAll)
+        break
+
+      case 'off':
+        break
+    }
   }
 
   private handlePointerMove = (event: Event) => {
     const pointerEvent = event as PointerEvent
-    this.updatePosition(pointerEvent.clientX, pointerEvent.clientY)
-    this.setInteracting(true)
+    const pointer = this.getPointer(pointerEvent, this.hitContainer)
+    this.updatePosition(pointer, pointerEvent, this.hitContainer)
+    this.setInteracting(pointer, true)
   }
 
   private handlePointerDown = (event: Event) => {
     const pointerEvent = event as PointerEvent
-    this.updatePosition(pointerEvent.clientX, pointerEvent.clientY)
-    this.setInteracting(true)
+    const pointer = this.getPointer(pointerEvent, this.hitContainer)
+    this.updatePosition(pointer, pointerEvent, this.hitContainer)
+    this.setInteracting(pointer, true)
   }
 
   private handlePointerEnter = (event: Event) => {
     const pointerEvent = event as PointerEvent
-    this.updatePosition(pointerEvent.clientX, pointerEvent.clientY)
+    const pointer = this.getPointer(pointerEvent, this.hitContainer)
+    this.updatePosition(pointer, pointerEvent, this.hitContainer)
   }
 
-  private handlePointerUp = () => {
-    this.setInteracting(false)
+  // A mouse is still hovering after its button is released; fingers and pens are gone
+  private handleHoverPointerUp = (event: Event) => {
+    if ((event as PointerEvent).pointerType === 'mouse') return
+    this.handlePointerRelease(event)
   }
 
-  private handlePointerLeave = () => {
-    this.setInteracting(false)
+  private handlePointerRelease = (event: Event) => {
+    const pointer = this.pointers.get((event as PointerEvent).pointerId)
+    if (pointer) this.setInteracting(pointer, false)
+  }
+
+  private handlePressPointerDown = (event: Event) => {
+    const pointerEvent = event as PointerEvent
+
+    // Keep receiving moves and the release when the press drags outside the hit area
+    try {
+      this.hitContainer.setPointerCapture(pointerEvent.pointerId)
+    } catch {
+      // The pointer may already be gone (e.g. a synthetic event)
+    }
+    this.handlePointerDown(event)
+  }
+
+  private handlePressPointerMove = (event: Event) => {
+    const pointerEvent = event as PointerEvent
+    const pointer = this.pointers.get(pointerEvent.pointerId)
+    if (!pointer?.hold) return
+    this.updatePosition(pointer, pointerEvent, this.hitContainer)
   }
 
   private handleGlobalPointerMove = (event: Event) => {
     const pointerEvent = event as PointerEvent
-    this.updateGlobalPosition(pointerEvent.clientX, pointerEvent.clientY)
-    this.setInteracting(true)
+    const pointer = this.getPointer(pointerEvent, this.container)
+    this.updatePosition(pointer, pointerEvent, this.container)
+    this.setInteracting(pointer, true)
   }
 
-  private handleScroll = () => {
-    // Handle scroll-based effects if needed
-    // This can be extended for scroll-based animations
+  private handleDocumentPointerOut = (event: Event) => {
+    // relatedTarget is null once the pointer has left the window
+    if ((event as PointerEvent).relatedTarget === null) {
+      this.handlePointerRelease(event)
+    }
+  }
+
+  private releaseAll = () => {
+    this.pointers.forEach(pointer => this.setInteracting(pointer, false))
+  }
+
+  /**
+   * Look up the state for the event's pointer, creating it on first contact
+   */
+  private getPointer(event: PointerEvent, element: HTMLElement): InteractionState {
+    let pointer = this.pointers.get(event.pointerId)
+    if (!pointer) {
+      const bounds = element.getBoundingClientRect()
+      pointer = this.createPointer(
+        event.pointerId,
+        event.pointerType,
+        bounds.width > 0 ? (event.clientX - bounds.left) / bounds.width : 0.5,
+        bounds.height > 0 ? (event.clientY - bounds.top) / bounds.height : 0.5,
+        event.timeStamp
+      )
+      pointer.pressure = readPressure(event)
+      pointer.tilt = readTilt(event)
+    }
+    return pointer
   }
 
-  private updatePosition(clientX: number, clientY: number): void {
-    const bounds = this.hitContainer.getBoundingClientRect()
-    const { x, y } = screenToNDC(clientX, clientY, bounds)
-    const { x: deltaX, y: deltaY } = calculateMovementDelta(
-      clientX,
-      clientY,
-      this.interactionState.lastNX,
-      this.interactionState.lastNY,
-      bounds
-    )
+  private updatePosition(pointer: InteractionState, event: PointerEvent, element: HTMLElement): void {
+    const bounds = element.getBoundingClientRect()
+    const nx = bounds.width > 0 ? (event.clientX - bounds.left) / bounds.width : 0.5
+    const ny = bounds.height > 0 ? (event.clientY - bounds.top) / bounds.height : 0.5
 
-    this.mouseState.target.set(x, y, 0)
-    this.onPositionUpdate(this.mouseState.target, { x: deltaX, y: deltaY })
+    // Pen and touch input for brush dynamics
+    pointer.pressure = readPressure(event)
+    pointer.tilt = readTilt(event)
 
-    // Update last position for delta calculation
-    this.interactionState.lastNX = bounds.width > 0 ? (clientX - bounds.left) / bounds.width : 0.5
-    this.interactionState.lastNY = bounds.height > 0 ? (clientY - bounds.top) / bounds.height : 0.5
+    this.movePointer(pointer, nx, ny, event.timeStamp)
+    this.onInput?.()
   }
 
-  private updateGlobalPosition(clientX: number, clientY: number): void {
-    const bounds = this.container.getBoundingClientRect()
-    const { x, y } = screenToNDC(clientX, clientY, bounds)
-    const { x: deltaX, y: deltaY } = calculateMovementDelta(
-      clientX,
-      clientY,
-      this.interactionState.lastNX,
-      this.interactionState.lastNY,
-      bounds
-    )
+  /**
+   * Move a pointer to (nx, ny) in 0-1 hit-area coordinates (y down) at `time` (ms)
+   */
+  private movePointer(pointer: InteractionState, nx: number, ny: number, time: number): void {
+    const deltaX = nx - pointer.lastNX
+    const deltaY = ny - pointer.lastNY
 
-    this.mouseState.target.set(x, y, 0)
-    this.onPositionUpdate(this.mouseState.target, { x: deltaX, y: deltaY })
+    // Smoothed speed for brush dynamics
+    const elapsed = (time - pointer.lastTime) / 1000
+    if (elapsed > 0) {
+      const speed = Math.hypot(deltaX, deltaY) / elapsed
+      pointer.speed = lerp(pointer.speed, speed, SPEED_SMOOTHING)
+    }
+    pointer.lastTime = time
+
+    this.applyPosition(pointer, nx, ny, { x: deltaX, y: deltaY })
+  }
+
+  private applyPosition(
+    pointer: InteractionState,
+    nx: number,
+    ny: number,
+    direction: { x: number; y: number }
+  ): void {
+    pointer.target.set(2 * (nx - 0.5), -2 * (ny - 0.5), 0)
+    this.mouseState.target.copy(pointer.target)
+    this.onPositionUpdate(pointer.target, direction, pointer)
 
     // Update last position for delta calculation
-    this.interactionState.lastNX = bounds.width > 0 ? (clientX - bounds.left) / bounds.width : 0.5
-    this.interactionState.lastNY = bounds.height > 0 ? (clientY - bounds.top) / bounds.height : 0.5
+    pointer.lastNX = nx
+    pointer.lastNY = ny
+  }
+
+  private createPointer(id: number, pointerType: string, nx: number, ny: number, time: number): InteractionState {
+    const x = 2 * (nx - 0.5)
+    const y = -2 * (ny - 0.5)
+    const pointer: InteractionState = {
+      pointerId: id,
+      pointerType,
+      hold: false,
+      heatUp: 0,
+      // Start from the current position so the first move has no jump
+      lastNX: nx,
+      lastNY: ny,
+      lastTime: time,
+      // Neutral dynamics until the first event says otherwise: same response as a mouse
+      pressure: 0.5,
+      tilt: 0,
+      speed: 0,
+      position: new THREE.Vector3(x, y, 0),
+      target: new THREE.Vector3(x, y, 0)
+    }
+    this.pointers.set(id, pointer)
+    return pointer
   }
 
-  private setInteracting(isInteracting: boolean): void {
-    if (this.interactionState.hold !== isInteracting) {
-      this.interactionState.hold = isInteracting
-      this.onInteractionChange(isInteracting)
+  private setInteracting(pointer: InteractionState, isInteracting: boolean): void {
+    if (pointer.hold !== isInteracting) {
+      pointer.hold = isInteracting
+      this.onHoldChange?.(pointer)
+    }
+
+    const anyHeld = Array.from(this.pointers.values()).some(p => p.hold)
+    if (this.interacting !== anyHeld) {
+      this.interacting = anyHeld
+      this.onInteractionChange(anyHeld)
     }
   }
 
   /**
-   * Get current mouse state
+   * Drive a programmatic pointer to an NDC position. Virtual pointers share the heat,
+   * brush and direction path of real ones but ignore the interaction mode.
+   */
+  moveVirtualPointer(id: number, x: number, y: number, hold = true, time = performance.now()): void {
+    const nx = x / 2 + 0.5
+    const ny = 0.5 - y / 2
+    const pointer = this.pointers.get(id) ?? this.createPointer(id, 'virtual', nx, ny, time)
+
+    this.movePointer(pointer, nx, ny, time)
+    this.setInteracting(pointer, hold)
+  }
+
+  /**
+   * Re-apply a recorded move exactly as captured, including its direction and speed
+   */
+  replayMove(move: RecordedMove): void {
+    const nx = move.x / 2 + 0.5
+    const ny = 0.5 - move.y / 2
+    const pointer = this.pointers.get(move.id) ?? this.createPointer(move.id, move.pointerType, nx, ny, move.time)
+
+    pointer.pressure = move.pressure
+    pointer.tilt = move.tilt
+    pointer.speed = move.speed
+    pointer.lastTime = move.time
+    this.applyPosition(pointer, nx, ny, move.direction)
+  }
+
+  /**
+   * Re-apply a recorded hold change; unknown pointers are ignored
+   */
+  replayHold(id: number, hold: boolean): void {
+    const pointer = this.pointers.get(id)
+    if (pointer) this.setInteracting(pointer, hold)
+  }
+
+  /**
+   * Enable or disable listening to real pointers (e.g. while a recording replays).
+   * Disabling drops every tracked pointer.
+   */
+  setLiveInput(enabled: boolean): void {
+    if (enabled === this.liveInput) return
+    this.liveInput = enabled
+
+    if (enabled) {
+      this.setupModeEvents()
+    } else {
+      this.modeCleanupFunctions.forEach(cleanup => cleanup())
+      this.modeCleanupFunctions = []
+      this.releaseAll()
+      this.pointers.clear()
+    }
+  }
+
+  /**
+   * Let a virtual pointer go; its heat cools down like a released real pointer
+   */
+  releaseVirtualPointer(id: number): void {
+    const pointer = this.pointers.get(id)
+    if (pointer) this.setInteracting(pointer, false)
+  }
+
+  /**
+   * Whether a real pointer is currently interacting
+   */
+  hasRealInput(): boolean {
+    return this.getPointers().some(pointer => pointer.hold && pointer.pointerType !== 'virtual')
+  }
+
+  /**
+   * Switch interaction mode; every pointer is released and listeners are rebound
+   */
+  setMode(mode: InteractionMode): void {
+    if (mode === this.mode) return
+
+    this.modeCleanupFunctions.forEach(cleanup => cleanup())
+    this.modeCleanupFunctions = []
+    this.releaseAll()
+
+    this.mode = mode
+    if (this.liveInput) this.setupModeEvents()
+  }
+
+  getMode(): InteractionMode {
+    return this.mode
+  }
+
+  /**
+   * Get current mouse state (the most recently moved pointer)
    */
   getMouseState(): Readonly<MouseState> {
     return this.mouseState
   }
 
   /**
-   * Get current interaction state
+   * Whether any pointer is currently interacting
+   */
+  isInteracting(): boolean {
+    return this.interacting
+  }
+
+  /**
+   * Live per-pointer states; the scene updates their heat every step
+   */
+  getPointers(): InteractionState[] {
+    return Array.from(this.pointers.values())
+  }
+
+  /**
+   * Snapshot of every tracked pointer (for external access)
    */
-  getInteractionState(): Readonly<InteractionState> {
-    return this.interactionState
+  getActivePointers(): ActivePointer[] {
+    return this.getPointers().map(pointer => ({
+      id: pointer.pointerId,
+      pointerType: pointer.pointerType,
+      x: pointer.position.x,
+      y: pointer.position.y,
+      hold: pointer.hold,
+      heat: pointer.heatUp
+    }))
   }
 
   /**
-   * Update mouse position with smooth interpolation
+   * Forget released pointers whose heat has fully cooled down
    */
-  updateMousePosition(lerpFactor: number): void {
+  prunePointers(): void {
+    this.pointers.forEach((pointer, id) => {
+      if (!pointer.hold && pointer.heatUp === 0) {
+        this.pointers.delete(id)
+      }
+    })
+  }
+
+  /**
+   * Smoothly move every pointer towards its latest position and let speeds settle
+   */
+  updatePointerPositions(lerpFactor: number, speedDecay = 1): void {
+    this.pointers.forEach(pointer => {
+      pointer.position.lerp(pointer.target, lerpFactor)
+      pointer.speed *= speedDecay
+    })
     this.mouseState.position.lerp(this.mouseState.target, lerpFactor)
   }
 
@@ -195,7 +446,8 @@ export class InteractionManager implements Disposable {
    * Dispose of all resources and event listeners
    */
   dispose(): void {
-    this.cleanupFunctions.forEach(cleanup => cleanup())
-    this.cleanupFunctions = []
+    this.modeCleanupFunctions.forEach(cleanup => cleanup())
+    this.modeCleanupFunctions = []
+    this.pointers.clear()
   }
 }
\ No newline at end of file
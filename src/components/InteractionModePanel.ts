@@ -0,0 +1,60 @@
+/**
+ * InteractionModePanel - HUD section for choosing how pointers heat the effect
+ */
+
+import type { Disposable, InteractionMode } from '../types'
+import { INTERACTION_MODES } from '../config/constants'
+import { addEventListenerWithCleanup, createElementFromHTML, getRequiredElement } from '../utils/dom'
+
+interface InteractionModePanelConfig {
+  container: HTMLElement
+  mode: InteractionMode
+  onChange: (mode: InteractionMode) => void
+}
+
+export class InteractionModePanel implements Disposable {
+  private element: HTMLElement
+  private select: HTMLSelectElement
+  private cleanupFunctions: Array<() => void> = []
+
+  constructor(config: InteractionModePanelConfig) {
+    this.element = createElementFromHTML(`
+      <div class="interaction-mode-panel">
+        <hr class="hud-separator">
+        <h4 class="section-title">Interaction</h4>
+        <div class="control-group preset-row">
+          <select class="interaction-mode-select" aria-label="Interaction mode"></select>
+        </div>
+      </div>
+    `)
+    config.container.appendChild(this.element)
+
+    this.select = getRequiredElement<HTMLSelectElement>('.interaction-mode-select', this.element)
+    this.select.replaceChildren(
+      ...INTERACTION_MODES.map(({ mode, label }) => new Option(label, mode))
+    )
+    this.select.value = config.mode
+
+    this.cleanupFunctions.push(
+      addEventListenerWithCleanup(this.select, 'change', () => {
+        config.onChange(this.select.value as InteractionMode)
+      })
+    )
+  }
+
+  /**
+   * Reflect a mode changed from outside the HUD
+   */
+  setMode(mode: InteractionMode): void {
+    this.select.value = mode
+  }
+
+  /**
+   * Dispose of all resources and event listeners
+   */
+  dispose(): void {
+    this.cleanupFunctions.forEach(cleanup => cleanup())
+    this.cleanupFunctions = []
+    this.element.remove()
+  }
+}
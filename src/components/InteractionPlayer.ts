@@ -0,0 +1,105 @@
+/**
+ * InteractionPlayer - Replays an InteractionRecording into an InteractionManager
+ *
+ * Events are applied at the start of the step whose scene time has reached them, so a
+ * replay driven by the same sequence of delta times lands every event in the same frame
+ * it was recorded in.
+ */
+
+import type { InteractionRecording } from '../types'
+import type { InteractionManager } from './InteractionManager'
+
+/**
+ * Throw if `recording` is not a recording this version can replay
+ */
+export function assertRecording(recording: unknown): asserts recording is InteractionRecording {
+  const candidate = recording as Partial<InteractionRecording> | null
+  if (!candidate || candidate.version !== 1) {
+    throw new Error(`Unsupported interaction recording version: ${String(candidate?.version)}`)
+  }
+  if (!Array.isArray(candidate.events) || typeof candidate.pointers !== 'object' || candidate.pointers === null) {
+    throw new Error('Interaction recording is missing its events or pointers')
+  }
+
+  candidate.events.forEach((event, index) => {
+    const valid = Array.isArray(event) &&
+      (event.length === 9 || event.length === 3) &&
+      event.every(value => typeof value === 'number' && Number.isFinite(value))
+    if (!valid) {
+      throw new Error(`Interaction recording event ${index} is malformed`)
+    }
+  })
+}
+
+export class InteractionPlayer {
+  private recording: InteractionRecording
+  private interactionManager: InteractionManager
+  private loop: boolean
+  private time = 0
+  private index = 0
+  private pointerIds = new Set<number>()
+
+  constructor(recording: InteractionRecording, interactionManager: InteractionManager, loop = false) {
+    assertRecording(recording)
+    this.recording = recording
+    this.interactionManager = interactionManager
+    this.loop = loop
+  }
+
+  /**
+   * Apply every event that is due and advance by `deltaTime`. Returns false once a
+   * non-looping recording has finished.
+   */
+  update(deltaTime: number): boolean {
+    const { events, duration } = this.recording
+    const now = Math.round(this.time * 1000)
+
+    while (this.index < events.length && events[this.index][0] <= now) {
+      this.apply(events[this.index])
+      this.index++
+    }
+
+    if (this.index >= events.length && now >= duration) {
+      this.releasePointers()
+      if (!this.loop) return false
+
+      this.time = 0
+      this.index = 0
+      return true
+    }
+
+    this.time += deltaTime
+    return true
+  }
+
+  /**
+   * Release every pointer the replay touched
+   */
+  releasePointers(): void {
+    this.pointerIds.forEach(id => this.interactionManager.replayHold(id, false))
+    this.pointerIds.clear()
+  }
+
+  private apply(event: InteractionRecording['events'][number]): void {
+    const id = event[1]
+    this.pointerIds.add(id)
+
+    if (event.length === 3) {
+      this.interactionManager.replayHold(id, event[2] === 1)
+      return
+    }
+
+    const [time, , x, y, directionX, directionY, pressure, tilt, speed] = event
+    this.interactionManager.replayMove({
+      id,
+      pointerType: this.recording.pointers[id] ?? 'mouse',
+      x,
+      y,
+      direction: { x: directionX, y: directionY },
+      pressure,
+      tilt,
+      speed,
+      time
+    })
+  }
+}
@@ -0,0 +1,102 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import type { InteractionState } from '../types'
+import type { InteractionManager, RecordedMove } from './InteractionManager'
+import { InteractionRecorder } from './InteractionRecorder'
+import { InteractionPlayer, assertRecording } from './InteractionPlayer'
+
+function pointer(id: number, x: number, y: number, hold = true): InteractionState {
+  return {
+    pointerId: id,
+    pointerType: id === 1 ? 'mouse' : 'touch',
+    hold,
+    heatUp: 0,
+    lastNX: 0,
+    lastNY: 0,
+    lastTime: 0,
+    pressure: 0.5,
+    tilt: 0,
+    speed: 1.23456,
+    position: new THREE.Vector3(x, y, 0),
+    target: new THREE.Vector3(x, y, 0)
+  }
+}
+
+// Stands in for InteractionManager and logs what the player applies, per step
+function createTarget() {
+  const log: Array<[number, string, number, ...unknown[]]> = []
+  let step = 0
+  const target = {
+    replayMove: (move: RecordedMove) => log.push([step, 'move', move.id, move.x, move.y, move.pointerType, move.speed]),
+    replayHold: (id: number, hold: boolean) => log.push([step, 'hold', id, hold])
+  }
+  return {
+    log,
+    manager: target as unknown as InteractionManager,
+    nextStep: () => { step++ }
+  }
+}
+
+describe('interaction recording', () => {
+  it('replays every event in the step it was recorded in', () => {
+    const deltaTimes = [1 / 60, 1 / 30, 1 / 60, 1 / 60, 1 / 45]
+    const recorder = new InteractionRecorder()
+    recorder.start()
+
+    const expected: unknown[] = []
+    deltaTimes.forEach((deltaTime, step) => {
+      if (step === 1) {
+        recorder.recordHold(pointer(1, 0, 0))
+        expected.push([step, 'hold', 1, true])
+      }
+      if (step >= 1 && step <= 3) {
+        recorder.recordMove(pointer(1, step / 10, -step / 10), { x: 1, y: 0 })
+        expected.push([step, 'move', 1, step / 10, -step / 10, 'mouse', 1.2346])
+      }
+      if (step === 2) {
+        recorder.recordMove(pointer(7, 0.5, 0.5), { x: 0, y: 1 })
+        expected.push([step, 'move', 7, 0.5, 0.5, 'touch', 1.2346])
+      }
+      if (step === 4) {
+        recorder.recordHold(pointer(1, 0.3, -0.3, false))
+        expected.push([step, 'hold', 1, false])
+      }
+      recorder.advance(deltaTime)
+    })
+    const recording = recorder.stop()
+
+    expect(recorder.isRecording()).toBe(false)
+    expect(recording.pointers).toEqual({ 1: 'mouse', 7: 'touch' })
+    expect(() => assertRecording(JSON.parse(JSON.stringify(recording)))).not.toThrow()
+
+    const { log, manager, nextStep } = createTarget()
+    const player = new InteractionPlayer(recording, manager)
+    const finished = deltaTimes.map(deltaTime => {
+      const running = player.update(deltaTime)
+      nextStep()
+      return running
+    })
+
+    expect(log).toEqual(expected)
+    expect(finished).toEqual([true, true, true, true, true])
+  })
+
+  it('releases the pointers it touched once it ends', () => {
+    const recorder = new InteractionRecorder()
+    recorder.start()
+    recorder.recordHold(pointer(3, 0, 0))
+    recorder.advance(0.1)
+    const recording = recorder.stop()
+
+    const { log, manager } = createTarget()
+    const player = new InteractionPlayer(recording, manager)
+    expect(player.update(0.1)).toBe(true)
+    expect(player.update(0.1)).toBe(false)
+    expect(log).toEqual([[0, 'hold', 3, true], [0, 'hold', 3, false]])
+  })
+
+  it('rejects recordings it cannot replay', () => {
+    expect(() => assertRecording({ version: 2, events: [], pointers: {} })).toThrow(/version: 2/)
+    expect(() => assertRecording({ version: 1, events: [[0, 1]], pointers: {} })).toThrow(/event 0 is malformed/)
+  })
+})
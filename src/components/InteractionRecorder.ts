@@ -0,0 +1,81 @@
+/**
+ * InteractionRecorder - Captures pointer moves and hold changes against scene time
+ */
+
+import type { InteractionRecording, InteractionState, RecordedHoldEvent, RecordedMoveEvent } from '../types'
+
+// Decimal places kept for positions and directions; plenty for a 4K canvas
+const PRECISION = 1e4
+
+function round(value: number): number {
+  return Math.round(value * PRECISION) / PRECISION
+}
+
+export class InteractionRecorder {
+  private recording = false
+  private time = 0
+  private events: Array<RecordedMoveEvent | RecordedHoldEvent> = []
+  private pointers: Record<string, string> = {}
+
+  /**
+   * Start a new recording, discarding any previous one
+   */
+  start(): void {
+    this.recording = true
+    this.time = 0
+    this.events = []
+    this.pointers = {}
+  }
+
+  /**
+   * Stop and return the recording
+   */
+  stop(): InteractionRecording {
+    this.recording = false
+    return {
+      version: 1,
+      duration: this.now(),
+      pointers: { ...this.pointers },
+      events: this.events.slice()
+    }
+  }
+
+  isRecording(): boolean {
+    return this.recording
+  }
+
+  /**
+   * Advance scene time; events are stamped with the time of the last completed step
+   */
+  advance(deltaTime: number): void {
+    if (this.recording) this.time += deltaTime
+  }
+
+  recordMove(pointer: Readonly<InteractionState>, direction: { x: number; y: number }): void {
+    if (!this.recording) return
+
+    this.pointers[pointer.pointerId] = pointer.pointerType
+    this.events.push([
+      this.now(),
+      pointer.pointerId,
+      round(pointer.target.x),
+      round(pointer.target.y),
+      round(direction.x),
+      round(direction.y),
+      round(pointer.pressure),
+      round(pointer.tilt),
+      round(pointer.speed)
+    ])
+  }
+
+  recordHold(pointer: Readonly<InteractionState>): void {
+    if (!this.recording) return
+
+    this.pointers[pointer.pointerId] = pointer.pointerType
+    this.events.push([this.now(), pointer.pointerId, pointer.hold ? 1 : 0])
+  }
+
+  private now(): number {
+    return Math.round(this.time * 1000)
+  }
+}
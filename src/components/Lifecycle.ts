@@ -0,0 +1,133 @@
+/**
+ * Lifecycle - Starts, stops, pauses and resumes the renderer and the scene together
+ *
+ * The effect runs only while it is started and nothing is holding a pause. Pauses are
+ * tracked per reason, so an automatic resume (tab visible again) never overrides an
+ * explicit pause() by the host.
+ */
+
+import type { Disposable, LifecycleHandler, LifecycleState, PauseReason, ThermalEffectConfig } from '../types'
+import type { AppRenderer } from '../renderer/AppRenderer'
+import type { AppScene } from '../scenes/AppScene'
+import { addEventListenerWithCleanup } from '../utils/dom'
+
+interface LifecycleConfig {
+  // Watched for visibility when pauseWhenOffscreen is on
+  element: HTMLElement
+  renderer: AppRenderer
+  scene: AppScene
+  config: ThermalEffectConfig['lifecycle']
+  onChange?: LifecycleHandler
+}
+
+export class Lifecycle implements Disposable {
+  private renderer: AppRenderer
+  private scene: AppScene
+  private onChange: LifecycleConfig['onChange']
+  private started: boolean
+  private reasons = new Set<PauseReason>()
+  private state: LifecycleState = 'stopped'
+  private observer: IntersectionObserver | null = null
+  private cleanupFunctions: Array<() => void> = []
+
+  constructor(config: LifecycleConfig) {
+    this.renderer = config.renderer
+    this.scene = config.scene
+    this.onChange = config.onChange
+    this.started = config.config.autoStart
+
+    if (config.config.pauseWhenHidden) {
+      this.cleanupFunctions.push(
+        addEventListenerWithCleanup(document, 'visibilitychange', this.handleVisibilityChange)
+      )
+      this.handleVisibilityChange()
+    }
+
+    if (config.config.pauseWhenOffscreen && typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver(entries => {
+        const visible = entries[entries.length - 1].isIntersecting
+        this.setReason('offscreen', !visible)
+      })
+      this.observer.observe(config.element)
+    }
+
+    this.apply()
+  }
+
+  private handleVisibilityChange = () => {
+    this.setReason('hidden', document.hidden)
+  }
+
+  /**
+   * Begin rendering; after stop() the heat map starts cold again
+   */
+  start(): void {
+    if (this.started) return
+    if (this.state === 'stopped') this.scene.resetHeat()
+    this.started = true
+    this.apply()
+  }
+
+  /**
+   * Halt rendering and source playback until start()
+   */
+  stop(): void {
+    if (!this.started) return
+    this.started = false
+    this.apply()
+  }
+
+  /**
+   * Freeze rendering, playback and heat for `reason` until resumed for the same reason
+   */
+  pause(reason: PauseReason = 'user'): void {
+    this.setReason(reason, true)
+  }
+
+  resume(reason: PauseReason = 'user'): void {
+    this.setReason(reason, false)
+  }
+
+  getState(): LifecycleState {
+    return this.state
+  }
+
+  getPauseReasons(): PauseReason[] {
+    return Array.from(this.reasons)
+  }
+
+  private setReason(reason: PauseReason, active: boolean): void {
+    if (active === this.reasons.has(reason)) return
+    if (active) {
+      this.reasons.add(reason)
+    } else {
+      this.reasons.delete(reason)
+    }
+    this.apply(true)
+  }
+
+  private apply(reasonsChanged = false): void {
+    const shouldRun = this.started && this.reasons.size === 0
+    if (shouldRun && !this.renderer.isRunning) {
+      this.scene.resume()
+      this.renderer.resume()
+    } else if (!shouldRun && this.renderer.isRunning) {
+      this.renderer.pause()
+      this.scene.pause()
+    }
+
+    const state: LifecycleState = !this.started ? 'stopped' : shouldRun ? 'running' : 'paused'
+    if (state !== this.state || (reasonsChanged && state === 'paused')) {
+      this.state = state
+      this.onChange?.(state, this.getPauseReasons())
+    }
+  }
+
+  dispose(): void {
+    this.cleanupFunctions.forEach(cleanup => cleanup())
+    this.cleanupFunctions = []
+    this.observer?.disconnect()
+    this.observer = null
+    this.onChange = undefined
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * PaletteEditor - HUD gradient editor for the thermal palette
+ *
+ * Stops can be dragged along the bar, recolored, given a different fade width,
+ * added (double-click the bar) and removed.
+ */
+
+import type { Disposable, PaletteStop } from '../types'
+import { PALETTE_CONFIG } from '../config/constants'
+import { addEventListenerWithCleanup, createElementFromHTML, getRequiredElement } from '../utils/dom'
+import { clamp, hexToRGB, rgbToHex } from '../utils/math'
+import { clonePalette, paletteToCSSGradient, samplePalette } from '../utils/palette'
+
+interface PaletteEditorConfig {
+  container: HTMLElement
+  stops: readonly PaletteStop[]
+  onChange: (stops: PaletteStop[]) => void
+}
+
+export class PaletteEditor implements Disposable {
+  private element: HTMLElement
+  private track: HTMLElement
+  private colorInput: HTMLInputElement
+  private fadeInput: HTMLInputElement
+  private removeButton: HTMLButtonElement
+  private onChange: PaletteEditorConfig['onChange']
+
+  private stops: PaletteStop[]
+  private selectedIndex = 0
+  private handles: HTMLElement[] = []
+  private cleanupFunctions: Array<() => void> = []
+
+  constructor(config: PaletteEditorConfig) {
+    this.stops = clonePalette(config.stops)
+    this.onChange = config.onChange
+
+    this.element = createElementFromHTML(`
+      <div class="palette-editor">
+        <hr class="hud-separator">
+        <h4 class="section-title">Palette</h4>
+        <div class="palette-track" title="Double-click to add a stop"></div>
+        <div class="palette-stop-controls">
+          <input type="color" class="palette-color" aria-label="Stop color">
+          <input type="range" class="palette-fade" min="0" max="1" step="0.01" aria-label="Stop fade">
+          <button class="reset-button palette-add">Add</button>
+          <button class="reset-button palette-remove">Remove</button>
+        </div>
+      </div>
+    `)
+    config.container.appendChild(this.element)
+
+    this.track = getRequiredElement('.palette-track', this.element)
+    this.colorInput = getRequiredElement<HTMLInputElement>('.palette-color', this.element)
+    this.fadeInput = getRequiredElement<HTMLInputElement>('.palette-fade', this.element)
+    this.removeButton = getRequiredElement<HTMLButtonElement>('.palette-remove', this.element)
+    const addButton = getRequiredElement<HTMLButtonElement>('.palette-add', this.element)
+
+    this.cleanupFunctions.push(
+      addEventListenerWithCleanup(this.track, 'dblclick', this.handleTrackDoubleClick),
+      addEventListenerWithCleanup(this.colorInput, 'input', this.handleColorInput),
+      addEventListenerWithCleanup(this.fadeInput, 'input', this.handleFadeInput),
+      addEventListenerWithCleanup(addButton, 'click', this.handleAddClick),
+      addEventListenerWithCleanup(this.removeButton, 'click', this.handleRemoveClick)
+    )
+
+    this.renderHandles()
+  }
+
+  private positionFromClientX(clientX: number): number {
+    const bounds = this.track.getBoundingClientRect()
+    return bounds.width > 0 ? clamp((clientX - bounds.left) / bounds.width, 0, 1) : 0
+  }
+
+  private handleTrackDoubleClick = (event: Event) => {
+    if (event.target !== this.track) return
+    this.addStop(this.positionFromClientX((event as MouseEvent).clientX))
+  }
+
+  private handleAddClick = () => {
+    const current = this.stops[this.selectedIndex]
+    this.addStop(clamp(current.position + 0.1, 0, 1))
+  }
+
+  private handleRemoveClick = () => {
+    if (this.stops.length <= PALETTE_CONFIG.MIN_STOPS) return
+
+    this.stops.splice(this.selectedIndex, 1)
+    this.selectedIndex = Math.min(this.selectedIndex, this.stops.length - 1)
+    this.renderHandles()
+    this.emitChange()
+  }
+
+  private handleColorInput = () => {
+    this.stops[this.selectedIndex].color = this.colorInput.value.replace(/^#/, '')
+    this.updateHandles()
+    this.emitChange()
+  }
+
+  private handleFadeInput = () => {
+    this.stops[this.selectedIndex].fade = parseFloat(this.fadeInput.value)
+    this.updateHandles()
+    this.emitChange()
+  }
+
+  /**
+   * Insert a stop at `position`, colored to match the current gradient there.
+   * It goes before the first later stop that sits above it so hotter colors still win.
+   */
+  private addStop(position: number): void {
+    if (this.stops.length >= PALETTE_CONFIG.MAX_STOPS) return
+
+    const stop: PaletteStop = {
+      color: rgbToHex(samplePalette(this.stops, position)),
+      position,
+      fade: PALETTE_CONFIG.DEFAULT_FADE
+    }
+
+    let index = this.stops.findIndex((existing, i) => i > 0 && existing.position > position)
+    if (index === -1) index = this.stops.length
+
+    this.stops.splice(index, 0, stop)
+    this.selectedIndex = index
+    this.renderHandles()
+    this.emitChange()
+  }
+
+  private select(index: number): void {
+    this.selectedIndex = index
+    this.updateHandles()
+  }
+
+  private startDrag(index: number, event: PointerEvent): void {
+    const handle = this.handles[index]
+    this.select(index)
+    handle.setPointerCapture(event.pointerId)
+
+    const move = (moveEvent: PointerEvent) => {
+      this.stops[index].position = this.positionFromClientX(moveEvent.clientX)
+      this.updateHandles()
+      this.emitChange()
+    }
+    const end = () => {
+      handle.removeEventListener('pointermove', move)
+      handle.removeEventListener('pointerup', end)
+      handle.removeEventListener('pointercancel', end)
+    }
+
+    handle.addEventListener('pointermove', move)
+    handle.addEventListener('pointerup', end)
+    handle.addEventListener('pointercancel', end)
+  }
+
+  /**
+   * Rebuild stop handles after stops were added or removed
+   */
+  private renderHandles(): void {
+    this.handles.forEach(handle => handle.remove())
+    this.handles = this.stops.map((_stop, index) => {
+      const handle = document.createElement('div')
+      handle.className = 'palette-stop'
+      handle.addEventListener('pointerdown', (event) => {
+        event.preventDefault()
+        this.startDrag(index, event)
+      })
+      this.track.appendChild(handle)
+      return handle
+    })
+
+    this.updateHandles()
+  }
+
+  /**
+   * Sync handle positions, colors and the selected-stop controls with the model
+   */
+  private updateHandles(): void {
+    this.track.style.background = paletteToCSSGradient(this.stops)
+
+    this.handles.forEach((handle, index) => {
+      const stop = this.stops[index]
+      handle.style.left = `${stop.position * 100}%`
+      handle.style.background = `#${stop.color.replace(/^#/, '')}`
+      handle.classList.toggle('selected', index === this.selectedIndex)
+    })
+
+    const selected = this.stops[this.selectedIndex]
+    this.colorInput.value = `#${rgbToHex(hexToRGB(selected.color))}`
+    this.fadeInput.value = selected.fade.toString()
+    this.removeButton.disabled = this.stops.length <= PALETTE_CONFIG.MIN_STOPS
+  }
+
+  private emitChange(): void {
+    this.onChange(clonePalette(this.stops))
+  }
+
+  /**
+   * Replace the edited stops without emitting a change (e.g. after a reset)
+   */
+  setStops(stops: readonly PaletteStop[]): void {
+    this.stops = clonePalette(stops)
+    this.selectedIndex = Math.min(this.selectedIndex, this.stops.length - 1)
+    this.renderHandles()
+  }
+
+  /**
+   * Get a copy of the edited stops
+   */
+  getStops(): PaletteStop[] {
+    return clonePalette(this.stops)
+  }
+
+  /**
+   * Dispose of all resources and event listeners
+   */
+  dispose(): void {
+    this.cleanupFunctions.forEach(cleanup => cleanup())
+    this.cleanupFunctions = []
+    this.element.remove()
+  }
+}
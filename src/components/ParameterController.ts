@@ -2,54 +2,67 @@
  * ParameterController - Manages HUD parameter controls and their interactions
  */
 
-import type { EffectParameters, ParameterControl, Disposable } from '../types'
-import { DEFAULT_PARAMETERS, PARAMETER_RANGES } from '../config/constants'
-import { getRequiredElement, setupParameterControl } from '../utils/dom'
+import type { EffectParameters, Disposable, ParameterControl } from '../types'
+import { DEFAULT_PARAMETERS, PARAMETER_RANGES, PARAMETER_CONTROLS } from '../config/constants'
+import { getRequiredElement, setupParameterControl, createElementFromHTML } from '../utils/dom'
+import { createHUDTemplate } from '../utils/templates'
 
 interface ParameterControllerConfig {
-  onParameterChange: (name: keyof EffectParameters, value: number) => void
+  // Element the HUD is rendered into; null keeps the controller headless
+  container: HTMLElement | null
+  idPrefix: string
+  defaults?: Partial<EffectParameters>
+  // Sliders shown in the HUD; defaults to PARAMETER_CONTROLS
+  controls?: readonly ParameterControl[]
+  // Called once per batch with the parameters that changed; `transient` marks per-frame
+  // animation (preset blends, scroll tracks) that skips the HUD and should skip persistence
+  onParameterChange: (names: Array<keyof EffectParameters>, transient: boolean) => void
   onReset: () => void
 }
 
+interface SetParametersOptions {
+  transient?: boolean
+}
+
 export class ParameterController implements Disposable {
   private parameters: EffectParameters
+  private defaults: EffectParameters
+  private idPrefix: string
+  private hud: HTMLElement | null = null
+  private controls: readonly ParameterControl[]
   private onParameterChange: ParameterControllerConfig['onParameterChange']
   private onReset: ParameterControllerConfig['onReset']
   private controlCleanups: Array<() => void> = []
   private parameterControls: Map<keyof EffectParameters, { setValue: (value: number) => void }> = new Map()
 
   constructor(config: ParameterControllerConfig) {
-    this.parameters = { ...DEFAULT_PARAMETERS }
+    this.defaults = { ...DEFAULT_PARAMETERS, ...config.defaults }
+    this.parameters = { ...this.defaults }
+    this.idPrefix = config.idPrefix
+    this.controls = config.controls ?? PARAMETER_CONTROLS
     this.onParameterChange = config.onParameterChange
     this.onReset = config.onReset
     
-    this.setupControls()
-    this.setupHUD()
-  }
+    if (config.container) {
+      this.hud = createElementFromHTML(
+        createHUDTemplate(this.idPrefix, this.controls, this.parameters)
+      )
+      config.container.appendChild(this.hud)
 
-  private setupControls(): void {
-    // Parameter control definitions
-    const controls: ParameterControl[] = [
-      // Visual parameters
-      { id: 'effect-intensity', param: 'effectIntensity', valueId: 'intensity-value' },
-      { id: 'contrast-power', param: 'contrastPower', valueId: 'power-value' },
-      { id: 'saturation', param: 'colorSaturation', valueId: 'saturation-value' },
-      { id: 'heat-sensitivity', param: 'heatSensitivity', valueId: 'heat-value' },
-      { id: 'video-blend', param: 'videoBlendAmount', valueId: 'blend-value' },
-      { id: 'gradient-shift', param: 'gradientShift', valueId: 'gradient-value' },
-      // Behavioral parameters
-      { id: 'heat-decay', param: 'heatDecay', valueId: 'decay-value' },
-      { id: 'interaction-radius', param: 'interactionRadius', valueId: 'radius-value' },
-      { id: 'reactivity', param: 'reactivity', valueId: 'reactivity-value' }
-    ]
+      this.setupControls(this.hud)
+      this.setupHUD(this.hud)
+    }
+  }
 
+  private setupControls(hud: HTMLElement): void {
     // Set up each control
-    controls.forEach(({ id, param, valueId }) => {
+    this.controls.forEach(({ id, param, valueId }) => {
       const control = setupParameterControl(
-        `#${id}`,
-        `#${valueId}`,
+        `#${this.idPrefix}-${id}`,
+        `#${this.idPrefix}-${valueId}`,
         (value: number) => this.setParameter(param, value),
-        this.parameters[param]
+        this.parameters[param],
+        hud
       )
       
       this.parameterControls.set(param, control)
@@ -57,11 +70,11 @@ export class ParameterController implements Disposable {
     })
   }
 
-  private setupHUD(): void {
+  private setupHUD(hud: HTMLElement): void {
     // HUD toggle functionality
-    const hudToggle = getRequiredElement<HTMLButtonElement>('#hud-toggle')
-    const hudContent = getRequiredElement<HTMLDivElement>('#hud-content')
-    const resetButton = getRequiredElement<HTMLButtonElement>('#reset-params')
+    const hudToggle = getRequiredElement<HTMLButtonElement>(`#${this.idPrefix}-hud-toggle`, hud)
+    const hudContent = getRequiredElement<HTMLDivElement>(`#${this.idPrefix}-hud-content`, hud)
+    const resetButton = getRequiredElement<HTMLButtonElement>(`#${this.idPrefix}-reset-params`, hud)
     
     let hudCollapsed = false
     
@@ -86,18 +99,26 @@ export class ParameterController implements Disposable {
     )
   }
 
+  /**
+   * Get the HUD element additional sections can be mounted into (null when headless)
+   */
+  getExtensionContainer(): HTMLElement | null {
+    if (!this.hud) return null
+    return getRequiredElement(`#${this.idPrefix}-hud-extensions`, this.hud)
+  }
+
   /**
    * Set a parameter value
    */
   setParameter(name: keyof EffectParameters, value: number): void {
+    this.parameters[name] = this.clampParameter(name, value)
+    this.onParameterChange([name], false)
+  }
+
+  private clampParameter(name: keyof EffectParameters, value: number): number {
     // Validate parameter range if defined
     const range = PARAMETER_RANGES[name]
-    if (range) {
-      value = Math.max(range.min, Math.min(range.max, value))
-    }
-    
-    this.parameters[name] = value
-    this.onParameterChange(name, value)
+    return range ? Math.max(range.min, Math.min(range.max, value)) : value
   }
 
   /**
@@ -118,31 +139,41 @@ export class ParameterController implements Disposable {
    * Reset all parameters to default values
    */
   resetToDefaults(): void {
-    this.parameters = { ...DEFAULT_PARAMETERS }
+    this.parameters = { ...this.defaults }
     
     // Update all UI controls
-    this.parameterControls.forEach((control, param) => {
-      const defaultValue = DEFAULT_PARAMETERS[param]
-      control.setValue(defaultValue)
-      this.onParameterChange(param, defaultValue)
-    })
+    this.syncControls()
+    this.onParameterChange(Object.keys(this.defaults) as Array<keyof EffectParameters>, false)
   }
 
   /**
-   * Set multiple parameters at once
+   * Set multiple parameters at once, notifying once for everything that changed.
+   * Transient updates leave the HUD alone; call syncControls() once they settle.
    */
-  setParameters(newParameters: Partial<EffectParameters>): void {
-    Object.entries(newParameters).forEach(([name, value]) => {
-      if (value !== undefined) {
-        this.setParameter(name as keyof EffectParameters, value)
-        
-        // Update UI control if it exists
-        const control = this.parameterControls.get(name as keyof EffectParameters)
-        if (control) {
-          control.setValue(value)
-        }
-      }
+  setParameters(newParameters: Partial<EffectParameters>, options: SetParametersOptions = {}): void {
+    const changed: Array<keyof EffectParameters> = []
+    const entries = Object.entries(newParameters) as Array<[keyof EffectParameters, number | undefined]>
+    entries.forEach(([name, value]) => {
+      if (value === undefined) return
+      const clamped = this.clampParameter(name, value)
+      if (clamped === this.parameters[name]) return
+
+      this.parameters[name] = clamped
+      changed.push(name)
+      // Update UI control if it exists, showing the clamped value
+      if (!options.transient) this.parameterControls.get(name)?.setValue(clamped)
     })
+
+    if (changed.length > 0) {
+      this.onParameterChange(changed, options.transient ?? false)
+    }
+  }
+
+  /**
+   * Show the current values in the HUD
+   */
+  syncControls(): void {
+    this.parameterControls.forEach((control, name) => control.setValue(this.parameters[name]))
   }
 
   /**
@@ -152,5 +183,7 @@ export class ParameterController implements Disposable {
     this.controlCleanups.forEach(cleanup => cleanup())
     this.controlCleanups = []
     this.parameterControls.clear()
+    this.hud?.remove()
+    this.hud = null
   }
 }
\ No newline at end of file
@@ -0,0 +1,138 @@
+/**
+ * PresetManager - Built-in and user-saved presets, persisted to localStorage
+ */
+
+import type { EffectParameters, Preset } from '../types'
+import { BUILT_IN_PRESETS, DEFAULT_PARAMETERS, PARAMETER_RANGES } from '../config/constants'
+import { clamp } from '../utils/math'
+import { clonePalette, getPaletteIssues } from '../utils/palette'
+
+interface PresetManagerConfig {
+  storageKey: string
+  builtIns?: readonly Preset[]
+}
+
+export function clonePreset(preset: Preset): Preset {
+  return {
+    name: preset.name,
+    parameters: { ...preset.parameters },
+    palette: clonePalette(preset.palette)
+  }
+}
+
+/**
+ * Coerce untrusted data (localStorage, URLs) into a valid preset, or null
+ */
+export function sanitizePreset(data: unknown): Preset | null {
+  if (typeof data !== 'object' || data === null) return null
+
+  const { name, parameters, palette } = data as Partial<Preset>
+  if (typeof name !== 'string' || name.trim() === '') return null
+  if (!Array.isArray(palette) || getPaletteIssues(palette).length > 0) return null
+
+  const sanitized: EffectParameters = { ...DEFAULT_PARAMETERS }
+  const names = Object.keys(PARAMETER_RANGES) as Array<keyof EffectParameters>
+  names.forEach(param => {
+    const value = parameters?.[param]
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      const { min, max } = PARAMETER_RANGES[param]
+      sanitized[param] = clamp(value, min, max)
+    }
+  })
+
+  return { name: name.trim(), parameters: sanitized, palette: clonePalette(palette) }
+}
+
+export class PresetManager {
+  private storageKey: string
+  private builtIns: readonly Preset[]
+  private userPresets: Preset[]
+
+  constructor(config: PresetManagerConfig) {
+    this.storageKey = config.storageKey
+    this.builtIns = config.builtIns ?? BUILT_IN_PRESETS
+    this.userPresets = this.load()
+  }
+
+  private load(): Preset[] {
+    try {
+      const raw = window.localStorage.getItem(this.storageKey)
+      if (!raw) return []
+
+      const data: unknown = JSON.parse(raw)
+      if (!Array.isArray(data)) return []
+
+      return data
+        .map(sanitizePreset)
+        .filter((preset): preset is Preset => preset !== null && !this.isBuiltIn(preset.name))
+    } catch (error) {
+      console.warn('Could not load saved presets:', error)
+      return []
+    }
+  }
+
+  private persist(): void {
+    try {
+      window.localStorage.setItem(this.storageKey, JSON.stringify(this.userPresets))
+    } catch (error) {
+      console.warn('Could not save presets:', error)
+    }
+  }
+
+  /**
+   * Check whether a name belongs to a built-in preset
+   */
+  isBuiltIn(name: string): boolean {
+    return this.builtIns.some(preset => preset.name === name)
+  }
+
+  /**
+   * All presets, built-ins first
+   */
+  getPresets(): Preset[] {
+    return [...this.builtIns, ...this.userPresets].map(clonePreset)
+  }
+
+  /**
+   * Look up a preset by name
+   */
+  getPreset(name: string): Preset | undefined {
+    const preset = [...this.builtIns, ...this.userPresets].find(p => p.name === name)
+    return preset ? clonePreset(preset) : undefined
+  }
+
+  /**
+   * Save or overwrite a user preset. Built-in presets cannot be overwritten.
+   */
+  savePreset(preset: Preset): Preset {
+    const sanitized = sanitizePreset(preset)
+    if (!sanitized) {
+      throw new Error('Invalid preset')
+    }
+    if (this.isBuiltIn(sanitized.name)) {
+      throw new Error(`Cannot overwrite built-in preset "${sanitized.name}"`)
+    }
+
+    const index = this.userPresets.findIndex(p => p.name === sanitized.name)
+    if (index === -1) {
+      this.userPresets.push(sanitized)
+    } else {
+      this.userPresets[index] = sanitized
+    }
+
+    this.persist()
+    return clonePreset(sanitized)
+  }
+
+  /**
+   * Delete a user preset. Returns false if no such user preset exists.
+   */
+  deletePreset(name: string): boolean {
+    const index = this.userPresets.findIndex(p => p.name === name)
+    if (index === -1) return false
+
+    this.userPresets.splice(index, 1)
+    this.persist()
+    return true
+  }
+}
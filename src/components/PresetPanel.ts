@@ -0,0 +1,91 @@
+/**
+ * PresetPanel - HUD section for choosing, saving and deleting presets
+ */
+
+import type { Disposable, Preset } from '../types'
+import { addEventListenerWithCleanup, createElementFromHTML, getRequiredElement } from '../utils/dom'
+
+interface PresetPanelConfig {
+  container: HTMLElement
+  onApply: (name: string) => void
+  onSave: (name: string) => void
+  onDelete: (name: string) => void
+}
+
+export class PresetPanel implements Disposable {
+  private element: HTMLElement
+  private select: HTMLSelectElement
+  private nameInput: HTMLInputElement
+  private deleteButton: HTMLButtonElement
+  private builtInNames = new Set<string>()
+  private cleanupFunctions: Array<() => void> = []
+
+  constructor(config: PresetPanelConfig) {
+    this.element = createElementFromHTML(`
+      <div class="preset-panel">
+        <hr class="hud-separator">
+        <h4 class="section-title">Presets</h4>
+        <div class="control-group preset-row">
+          <select class="preset-select" aria-label="Preset"></select>
+          <button class="reset-button preset-delete">Delete</button>
+        </div>
+        <div class="control-group preset-row">
+          <input type="text" class="preset-name" placeholder="Preset name" aria-label="Preset name">
+          <button class="reset-button preset-save">Save</button>
+        </div>
+      </div>
+    `)
+    config.container.appendChild(this.element)
+
+    this.select = getRequiredElement<HTMLSelectElement>('.preset-select', this.element)
+    this.nameInput = getRequiredElement<HTMLInputElement>('.preset-name', this.element)
+    this.deleteButton = getRequiredElement<HTMLButtonElement>('.preset-delete', this.element)
+    const saveButton = getRequiredElement<HTMLButtonElement>('.preset-save', this.element)
+
+    const apply = () => {
+      if (this.select.value) config.onApply(this.select.value)
+      this.updateDeleteButton()
+    }
+    const save = () => {
+      const name = this.nameInput.value.trim()
+      if (!name) return
+      config.onSave(name)
+      this.nameInput.value = ''
+    }
+    const remove = () => {
+      if (this.select.value) config.onDelete(this.select.value)
+    }
+
+    this.cleanupFunctions.push(
+      addEventListenerWithCleanup(this.select, 'change', apply),
+      addEventListenerWithCleanup(saveButton, 'click', save),
+      addEventListenerWithCleanup(this.deleteButton, 'click', remove)
+    )
+  }
+
+  private updateDeleteButton(): void {
+    this.deleteButton.disabled = !this.select.value || this.builtInNames.has(this.select.value)
+  }
+
+  /**
+   * Refresh the preset list and highlight the active preset
+   */
+  setPresets(presets: readonly Preset[], builtInNames: readonly string[], activeName: string | null): void {
+    this.builtInNames = new Set(builtInNames)
+    this.select.replaceChildren(
+      new Option('Custom', ''),
+      ...presets.map(preset => new Option(preset.name, preset.name))
+    )
+    this.select.value = activeName ?? ''
+    this.updateDeleteButton()
+  }
+
+  /**
+   * Dispose of all resources and event listeners
+   */
+  dispose(): void {
+    this.cleanupFunctions.forEach(cleanup => cleanup())
+    this.cleanupFunctions = []
+    this.element.remove()
+  }
+}
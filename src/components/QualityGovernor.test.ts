@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import type { QualityState } from '../types'
+import { THERMAL_EFFECT_CONFIG } from '../config/constants'
+import { QualityGovernor } from './QualityGovernor'
+
+function createGovernor(overrides: Partial<typeof THERMAL_EFFECT_CONFIG.quality> = {}) {
+  const changes: QualityState[] = []
+  const governor = new QualityGovernor({
+    config: { ...THERMAL_EFFECT_CONFIG.quality, ...overrides },
+    maxPixelRatio: 2,
+    maxDrawTextureSize: 256,
+    onChange: quality => changes.push(quality)
+  })
+  return { governor, changes }
+}
+
+function run(governor: QualityGovernor, frameTime: number, seconds: number): void {
+  for (let time = 0; time < seconds; time += frameTime) governor.sample(frameTime)
+}
+
+describe('QualityGovernor', () => {
+  it('builds the ladder from pixel ratio, then trail size, then tier', () => {
+    const { governor, changes } = createGovernor({ cooldown: 0 })
+    const top = governor.getQuality()
+    expect(top).toMatchObject({ pixelRatio: 2, drawTextureSize: 256, tier: 'high', level: 9, levelCount: 10 })
+
+    run(governor, 1 / 15, 30)
+    expect(changes.map(({ pixelRatio, drawTextureSize, tier }) => [pixelRatio, drawTextureSize, tier])).toEqual([
+      [1.75, 256, 'high'],
+      [1.5, 256, 'high'],
+      [1.25, 256, 'high'],
+      [1, 256, 'high'],
+      [0.75, 256, 'high'],
+      [0.75, 128, 'high'],
+      [0.75, 64, 'high'],
+      [0.75, 64, 'medium'],
+      [0.75, 64, 'low']
+    ])
+  })
+
+  it('keeps full quality on displays running at their own refresh rate', () => {
+    const sixty = createGovernor()
+    run(sixty.governor, 1 / 60, 20)
+    expect(sixty.changes).toEqual([])
+    expect(sixty.governor.getQuality().refreshRate).toBe(60)
+
+    const fifty = createGovernor()
+    run(fifty.governor, 1 / 50, 20)
+    expect(fifty.changes).toEqual([])
+    expect(fifty.governor.getQuality().refreshRate).toBe(50)
+  })
+
+  it('steps down on a device that is slow from the first frame', () => {
+    const { governor, changes } = createGovernor()
+    run(governor, 1 / 20, 3)
+
+    expect(changes.length).toBeGreaterThan(0)
+    expect(governor.getQuality().refreshRate).toBe(50)
+  })
+
+  it('steps down when frames slow down and back up after upgradeDelay', () => {
+    const { governor, changes } = createGovernor({ cooldown: 0, upgradeDelay: 3 })
+    run(governor, 1 / 60, 2)
+    run(governor, 1 / 40, 1.01)
+    expect(changes.map(change => change.level)).toEqual([8])
+
+    run(governor, 1 / 60, 4)
+    expect(changes.map(change => change.level)).toEqual([8, 9])
+  })
+
+  it('ignores frames while settling after restart()', () => {
+    const { governor, changes } = createGovernor({ cooldown: 2 })
+    governor.restart()
+    run(governor, 1 / 10, 1.5)
+
+    expect(changes).toEqual([])
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * QualityGovernor - Steps rendering quality down and up with the measured frame rate
+ *
+ * The frame rate is judged against the display's refresh rate: the shortest frame
+ * interval seen so far, but never slower than minRefreshRate. A 50 Hz screen can still
+ * step up, while a device that is slow from its first frame is not mistaken for a slow
+ * display. Throttled and hidden tabs are left to the lifecycle, which pauses rendering
+ * and calls restart() when it resumes.
+ *
+ * Quality is a ladder of levels built from the configured bounds. Each step down lowers
+ * one knob: the pixel ratio first (fill rate dominates), then the trail target size, then
+ * the shader tier. Steps down react within one sample window; steps up need upgradeDelay
+ * seconds of comfortable frames and every change is followed by a cooldown, so the level
+ * does not flip back and forth around a threshold.
+ */
+
+import type { Disposable, QualityHandler, QualityState, QualityTier, ThermalEffectConfig } from '../types'
+import { QUALITY_CONFIG, QUALITY_TIERS } from '../config/constants'
+
+interface QualityLevel {
+  pixelRatio: number
+  drawTextureSize: number
+  tier: QualityTier
+}
+
+interface QualityGovernorConfig {
+  config: ThermalEffectConfig['quality']
+  // Upper limits of the device: window.devicePixelRatio and drawRenderer.textureSize
+  maxPixelRatio: number
+  maxDrawTextureSize: number
+  onChange?: QualityHandler
+}
+
+// Longer frames are stalls (tab switch, GC, shader compile), not a sign of sustained load
+const STALL_FRAME_TIME = 0.25
+
+/**
+ * Build the ladder from the lowest level to the highest
+ */
+function buildLadder(
+  config: ThermalEffectConfig['quality'],
+  maxPixelRatio: number,
+  maxDrawTextureSize: number
+): QualityLevel[] {
+  const [minRatio, maxRatio] = config.pixelRatio
+  const [minSize, maxSize] = config.drawTextureSize
+  const minTier = QUALITY_TIERS.indexOf(config.tier[0])
+
+  let level: QualityLevel = {
+    pixelRatio: Math.max(minRatio, Math.min(maxRatio, maxPixelRatio)),
+    drawTextureSize: Math.max(minSize, Math.min(maxSize, maxDrawTextureSize)),
+    tier: config.tier[1]
+  }
+  const ladder = [level]
+
+  for (;;) {
+    const tier = QUALITY_TIERS.indexOf(level.tier)
+    if (level.pixelRatio > minRatio) {
+      level = { ...level, pixelRatio: Math.max(minRatio, level.pixelRatio - QUALITY_CONFIG.PIXEL_RATIO_STEP) }
+    } else if (level.drawTextureSize > minSize) {
+      level = { ...level, drawTextureSize: Math.max(minSize, Math.floor(level.drawTextureSize / 2)) }
+    } else if (tier > minTier) {
+      level = { ...level, tier: QUALITY_TIERS[tier - 1] }
+    } else {
+      break
+    }
+    ladder.push(level)
+  }
+
+  return ladder.reverse()
+}
+
+export class QualityGovernor implements Disposable {
+  private config: ThermalEffectConfig['quality']
+  private ladder: QualityLevel[]
+  private level: number
+  private onChange: QualityGovernorConfig['onChange']
+  private fps = 0
+  // Estimated display refresh interval in seconds; 0 before any measurement
+  private refreshInterval = 0
+  // Shortest frame interval seen since creation, in seconds
+  private minFrameTime = Infinity
+  // Current sample window
+  private windowTime = 0
+  private windowFrames = 0
+  private windowMinFrameTime = Infinity
+  // Seconds the frame rate has stayed above upgradeRatio
+  private headroomTime = 0
+  // Seconds of frames still ignored after the last change
+  private settleTime = 0
+
+  constructor(config: QualityGovernorConfig) {
+    this.config = config.config
+    this.ladder = buildLadder(config.config, config.maxPixelRatio, config.maxDrawTextureSize)
+    this.level = this.ladder.length - 1
+    this.onChange = config.onChange
+  }
+
+  getQuality(): QualityState {
+    return {
+      ...this.ladder[this.level],
+      level: this.level,
+      levelCount: this.ladder.length,
+      fps: Math.round(this.fps * 10) / 10,
+      refreshRate: this.refreshInterval > 0 ? Math.round(10 / this.refreshInterval) / 10 : 0
+    }
+  }
+
+  /**
+   * Feed the wall-clock duration of one rendered frame, in seconds
+   */
+  sample(frameTime: number): void {
+    if (!this.config.adaptive || !(frameTime > 0) || frameTime > STALL_FRAME_TIME) return
+
+    if (this.settleTime > 0) {
+      this.settleTime -= frameTime
+      return
+    }
+
+    this.windowTime += frameTime
+    this.windowFrames++
+    this.windowMinFrameTime = Math.min(this.windowMinFrameTime, frameTime)
+    if (this.windowTime < this.config.sampleWindow) return
+
+    const elapsed = this.windowTime
+    this.fps = this.windowFrames / elapsed
+    // The shortest interval is one vsync. It only ever shrinks: a device that is
+    // steadily slow never shows a full-speed frame, so it is bounded by minRefreshRate
+    this.minFrameTime = Math.min(this.minFrameTime, this.windowMinFrameTime)
+    this.refreshInterval = Math.min(this.minFrameTime, 1 / this.config.minRefreshRate)
+    this.windowTime = 0
+    this.windowFrames = 0
+    this.windowMinFrameTime = Infinity
+
+    const ratio = this.fps * this.refreshInterval
+    if (ratio < this.config.downgradeRatio) {
+      this.headroomTime = 0
+      this.setLevel(this.level - 1)
+    } else if (ratio >= this.config.upgradeRatio) {
+      this.headroomTime += elapsed
+      if (this.headroomTime >= this.config.upgradeDelay) {
+        this.headroomTime = 0
+        this.setLevel(this.level + 1)
+      }
+    } else {
+      this.headroomTime = 0
+    }
+  }
+
+  /**
+   * Drop the current measurement and let frames settle, e.g. after a pause during
+   * which the browser throttled or stopped the animation loop
+   */
+  restart(): void {
+    this.resetMeasurement()
+    this.settleTime = this.config.cooldown
+  }
+
+  private resetMeasurement(): void {
+    this.windowTime = 0
+    this.windowFrames = 0
+    this.windowMinFrameTime = Infinity
+    this.headroomTime = 0
+  }
+
+  private setLevel(level: number): void {
+    const next = Math.max(0, Math.min(this.ladder.length - 1, level))
+    if (next === this.level) return
+
+    this.level = next
+    this.settleTime = this.config.cooldown
+    this.resetMeasurement()
+    this.onChange?.(this.getQuality())
+  }
+
+  dispose(): void {
+    this.onChange = undefined
+  }
+}
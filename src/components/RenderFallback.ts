@@ -0,0 +1,212 @@
+/**
+ * RenderFallback - Stands in for the WebGL effect when it cannot render
+ *
+ * Tries the Canvas2D CPU renderer first and falls back to a static poster image if
+ * that is disabled or fails, so the container never stays an empty box.
+ */
+
+import type { BlendMode, Disposable, EffectParameters, LayoutOptions, MaskOptions, MaskSource, PaletteStop, RenderStatus, RenderStatusHandler, ThermalEffectConfig } from '../types'
+import { CanvasFallbackRenderer } from '../renderer/CanvasFallbackRenderer'
+import { AssetLoader } from './AssetLoader'
+import { BLEND_MODE_CSS } from '../config/constants'
+import { createMaskTexture } from '../utils/mask'
+import { resolveAssetUrls } from '../utils/assets'
+
+interface RenderFallbackConfig {
+  // Element the fallback canvas or poster is layered into
+  container: HTMLElement
+  effectConfig: ThermalEffectConfig
+  // Initial mask; defaults to effectConfig.maskUrl
+  mask?: MaskSource
+  // Loads URL masks; defaults to a loader that reports no progress
+  loader?: AssetLoader
+  getParameters: () => Readonly<EffectParameters>
+  getPalette: () => readonly PaletteStop[]
+  onChange?: RenderStatusHandler
+}
+
+export class RenderFallback implements Disposable {
+  private container: HTMLElement
+  private effectConfig: ThermalEffectConfig
+  private getParameters: RenderFallbackConfig['getParameters']
+  private getPalette: RenderFallbackConfig['getPalette']
+  private onChange: RenderFallbackConfig['onChange']
+  private loader: AssetLoader
+  private status: RenderStatus = { mode: 'webgl', reason: null }
+  private renderer: CanvasFallbackRenderer | null = null
+  private poster: HTMLImageElement | null = null
+  private mask: { source: MaskSource; options: MaskOptions }
+  // Only the fade carries over; the canvas and poster always fill the container
+  private fade: Pick<LayoutOptions, 'fadeCenter' | 'fadeRadius'>
+  private blendMode: BlendMode
+  private running = true
+  private active = false
+  // Bumped by every activate() and deactivate(); stale mask loads are dropped
+  private request = 0
+
+  constructor(config: RenderFallbackConfig) {
+    this.container = config.container
+    this.effectConfig = config.effectConfig
+    this.getParameters = config.getParameters
+    this.getPalette = config.getPalette
+    this.onChange = config.onChange
+    this.loader = config.loader ?? new AssetLoader({ config: config.effectConfig.loading })
+    this.mask = {
+      source: config.mask ?? { type: 'url', url: config.effectConfig.maskUrl },
+      options: { ...config.effectConfig.mask }
+    }
+    this.fade = {
+      fadeCenter: config.effectConfig.layout.fadeCenter,
+      fadeRadius: config.effectConfig.layout.fadeRadius
+    }
+    this.blendMode = config.effectConfig.output.blendMode
+  }
+
+  getStatus(): RenderStatus {
+    return { ...this.status }
+  }
+
+  get isActive(): boolean {
+    return this.active
+  }
+
+  /**
+   * Show the Canvas2D renderer in place of WebGL, or the poster if that fails too
+   */
+  async activate(reason: Error): Promise<void> {
+    if (this.active) return
+    this.active = true
+    const request = ++this.request
+
+    if (this.effectConfig.fallback.canvas) {
+      try {
+        const { output, fallback } = this.effectConfig
+        const renderer = new CanvasFallbackRenderer(this.container, {
+          resolution: fallback.resolution,
+          fps: fallback.fps,
+          transparent: output.transparent,
+          fadeCenter: this.fade.fadeCenter,
+          fadeRadius: this.fade.fadeRadius,
+          getParameters: this.getParameters,
+          getPalette: this.getPalette
+        })
+        renderer.canvas.style.mixBlendMode = BLEND_MODE_CSS[this.blendMode]
+        this.renderer = renderer
+        await this.loadMask(renderer)
+        if (request !== this.request) return
+
+        if (this.running) renderer.play()
+        this.setStatus({ mode: 'canvas', reason })
+        return
+      } catch (error) {
+        if (request !== this.request) return
+        console.warn('Canvas fallback failed, showing the poster instead:', error)
+        this.renderer?.dispose()
+        this.renderer = null
+      }
+    }
+
+    this.showPoster()
+    this.setStatus({ mode: 'poster', reason })
+  }
+
+  /**
+   * Remove the fallback once WebGL can render again
+   */
+  deactivate(): void {
+    if (!this.active) return
+    this.active = false
+    this.request++
+
+    this.renderer?.dispose()
+    this.renderer = null
+    this.poster?.remove()
+    this.poster = null
+    this.setStatus({ mode: 'webgl', reason: null })
+  }
+
+  /**
+   * Follow mask changes; options not given keep their current values
+   */
+  async setMask(source: MaskSource, options: Partial<MaskOptions> = {}): Promise<void> {
+    this.mask = { source, options: { ...this.mask.options, ...options } }
+    if (this.renderer) await this.loadMask(this.renderer)
+  }
+
+  /**
+   * Follow the effect's fade; kept for a fallback shown later
+   */
+  setLayout(layout: Pick<LayoutOptions, 'fadeCenter' | 'fadeRadius'>): void {
+    this.fade = { fadeCenter: layout.fadeCenter, fadeRadius: layout.fadeRadius }
+    this.renderer?.setFade(layout.fadeCenter, layout.fadeRadius)
+  }
+
+  /**
+   * Composite the canvas or poster like the WebGL canvas would
+   */
+  setBlendMode(mode: BlendMode): void {
+    this.blendMode = mode
+    const element = this.renderer?.canvas ?? this.poster
+    if (element) element.style.mixBlendMode = BLEND_MODE_CSS[mode]
+  }
+
+  getBlendMode(): BlendMode {
+    return this.blendMode
+  }
+
+  /**
+   * Animate the CPU renderer only while the effect itself would run
+   */
+  setRunning(running: boolean): void {
+    this.running = running
+    if (!this.renderer || this.status.mode !== 'canvas') return
+    if (running) this.renderer.play()
+    else this.renderer.pause()
+  }
+
+  private async loadMask(renderer: CanvasFallbackRenderer): Promise<void> {
+    const { source, options } = this.mask
+    // Rasterizing only needs Canvas2D; the texture never reaches the GPU
+    const texture = await createMaskTexture(source, options, url => this.loader.loadImage(url))
+    try {
+      if (renderer === this.renderer) {
+        renderer.setMask(texture.image as HTMLCanvasElement, options.channel)
+      }
+    } finally {
+      texture.dispose()
+    }
+  }
+
+  private showPoster(): void {
+    const poster = document.createElement('img')
+    poster.className = 'thermal-effect-poster'
+    poster.alt = ''
+    poster.src = this.effectConfig.fallback.posterUrl ?? resolveAssetUrls(this.effectConfig.maskUrl, 'image')[0]
+    Object.assign(poster.style, {
+      position: 'absolute',
+      inset: '0',
+      width: '100%',
+      height: '100%',
+      objectFit: 'contain',
+      pointerEvents: 'none',
+      mixBlendMode: BLEND_MODE_CSS[this.blendMode]
+    })
+    this.container.appendChild(poster)
+    this.poster = poster
+  }
+
+  private setStatus(status: RenderStatus): void {
+    this.status = status
+    this.onChange?.({ ...status })
+  }
+
+  dispose(): void {
+    this.active = false
+    this.request++
+    this.renderer?.dispose()
+    this.renderer = null
+    this.poster?.remove()
+    this.poster = null
+    this.onChange = undefined
+  }
+}
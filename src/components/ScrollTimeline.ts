@@ -0,0 +1,139 @@
+/**
+ * ScrollTimeline - Maps the container's position in the viewport to keyframed values
+ */
+
+import type { Disposable, ScrollKeyframe, ScrollTarget, ScrollTimelineConfig } from '../types'
+import { EASINGS } from '../utils/easing'
+import { clamp, lerp } from '../utils/math'
+
+interface ScrollTimelineOptions {
+  element: HTMLElement
+  config: ScrollTimelineConfig
+}
+
+/**
+ * Value of a keyframe track at `progress`; flat before the first and after the last keyframe
+ */
+function sampleTrack(keyframes: readonly ScrollKeyframe[], progress: number): number {
+  const first = keyframes[0]
+  if (progress <= first.at) return first.value
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const to = keyframes[i]
+    if (progress <= to.at) {
+      const from = keyframes[i - 1]
+      const span = to.at - from.at
+      const t = span > 0 ? (progress - from.at) / span : 1
+      return lerp(from.value, to.value, EASINGS[from.easing ?? 'linear'](t))
+    }
+  }
+
+  return keyframes[keyframes.length - 1].value
+}
+
+export class ScrollTimeline implements Disposable {
+  private element: HTMLElement
+  private config: ScrollTimelineConfig
+  private observer: IntersectionObserver | null = null
+  private progress = 0
+  // Re-measure on the next update; set by scroll, resize and visibility changes
+  private dirty = true
+  private visible = true
+
+  constructor(options: ScrollTimelineOptions) {
+    this.element = options.element
+    this.config = options.config
+    if (this.config.enabled) this.attach()
+  }
+
+  setConfig(config: ScrollTimelineConfig): void {
+    if (config.enabled && !this.config.enabled) this.attach()
+    if (!config.enabled && this.config.enabled) this.detach()
+    this.config = config
+    this.dirty = true
+  }
+
+  /**
+   * Start listening while enabled. Scroll is captured on the document, so nested
+   * scroll containers move the timeline as well as the page.
+   */
+  private attach(): void {
+    document.addEventListener('scroll', this.handleViewportChange, { capture: true, passive: true })
+    window.addEventListener('resize', this.handleViewportChange, { passive: true })
+
+    // Skip layout reads while the container is off screen
+    if (typeof IntersectionObserver !== 'undefined') {
+      this.observer = new IntersectionObserver(entries => {
+        this.visible = entries[entries.length - 1].isIntersecting
+        this.dirty = true
+      })
+      this.observer.observe(this.element)
+    }
+  }
+
+  private handleViewportChange = () => {
+    this.dirty = true
+  }
+
+  private detach(): void {
+    document.removeEventListener('scroll', this.handleViewportChange, { capture: true })
+    window.removeEventListener('resize', this.handleViewportChange)
+    this.observer?.disconnect()
+    this.observer = null
+    this.visible = true
+  }
+
+  getConfig(): Readonly<ScrollTimelineConfig> {
+    return this.config
+  }
+
+  /**
+   * Mark the scroll position as changed
+   */
+  invalidate(): void {
+    this.dirty = true
+  }
+
+  getProgress(): number {
+    return this.progress
+  }
+
+  /**
+   * Re-measure if needed and return the value of every track, or null when the
+   * timeline is disabled or nothing moved
+   */
+  update(): Partial<Record<ScrollTarget, number>> | null {
+    if (!this.config.enabled || !this.dirty) return null
+    this.dirty = false
+
+    // Off screen the progress is pinned to whichever end the container left through;
+    // measure once more to land exactly there, then stop until it comes back
+    if (!this.visible && (this.progress === 0 || this.progress === 1)) return null
+    this.progress = this.measure()
+
+    const values: Partial<Record<ScrollTarget, number>> = {}
+    const tracks = Object.entries(this.config.tracks) as Array<[ScrollTarget, ScrollKeyframe[]]>
+    tracks.forEach(([target, keyframes]) => {
+      if (keyframes.length > 0) {
+        values[target] = sampleTrack(keyframes, this.progress)
+      }
+    })
+    return values
+  }
+
+  private measure(): number {
+    const rect = this.element.getBoundingClientRect()
+    const viewportHeight = window.innerHeight || document.documentElement.clientHeight
+
+    // 0 when the top edge enters at the bottom, 1 when the bottom edge leaves at the top
+    const travel = viewportHeight + rect.height
+    const raw = travel > 0 ? (viewportHeight - rect.top) / travel : 0
+
+    const [start, end] = this.config.range
+    return clamp((raw - start) / (end - start), 0, 1)
+  }
+
+  dispose(): void {
+    if (this.config.enabled) this.detach()
+  }
+}
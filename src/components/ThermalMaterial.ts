@@ -3,44 +3,45 @@
  */
 
 import * as THREE from 'three'
-import type { ThermalShaderUniforms, EffectParameters, Disposable } from '../types'
-import { THERMAL_PALETTE, GRADIENT_CONFIG } from '../config/constants'
-import { hexToRGB } from '../utils/math'
+import type { ThermalShaderUniforms, EffectParameters, Disposable, MaskChannel, PaletteStop, QualityTier } from '../types'
+import { THERMAL_EFFECT_CONFIG } from '../config/constants'
+import { getChannelWeights } from '../utils/mask'
+import { blendPaletteData, bakePalette, clonePalette, createPaletteTexture, getPaletteIssues, updatePaletteTexture } from '../utils/palette'
 import { shaders } from '../shaders'
 
 interface ThermalMaterialConfig {
   drawTexture: THREE.Texture
-  videoTexture: THREE.VideoTexture
+  // Base temperature field: the video or the procedural noise texture
+  baseTexture: THREE.Texture | null
   maskTexture: THREE.Texture
+  maskChannel?: MaskChannel
+  palette?: readonly PaletteStop[]
+  // Write premultiplied alpha for a transparent canvas
+  transparent?: boolean
+  fadeCenter?: [number, number]
+  fadeRadius?: [number, number]
 }
 
 export class ThermalMaterial implements Disposable {
   private material: THREE.ShaderMaterial
   private uniforms: ThermalShaderUniforms
+  private palette: PaletteStop[]
+  private paletteTransition: { from: Uint8Array; to: Uint8Array } | null = null
 
   constructor(config: ThermalMaterialConfig) {
+    this.palette = clonePalette(config.palette ?? THERMAL_EFFECT_CONFIG.palette)
     this.uniforms = this.createUniforms(config)
     this.material = this.createMaterial()
   }
 
   private createUniforms(config: ThermalMaterialConfig): ThermalShaderUniforms {
-    // Convert hex colors to RGB values for shader uniforms
-    const colors = THERMAL_PALETTE.map(hex => hexToRGB(hex)) as [
-      [number, number, number],
-      [number, number, number],
-      [number, number, number],
-      [number, number, number],
-      [number, number, number],
-      [number, number, number],
-      [number, number, number]
-    ]
-
     return {
       // Texture uniforms
       blendVideo: { value: 0 },
       drawMap: { value: config.drawTexture },
-      textureMap: { value: config.videoTexture },
+      textureMap: { value: config.baseTexture },
       maskMap: { value: config.maskTexture },
+      maskChannel: { value: getChannelWeights(config.maskChannel ?? THERMAL_EFFECT_CONFIG.mask.channel) },
       
       // Transform uniforms
       scale: { value: [1, 1] },
@@ -48,41 +49,37 @@ export class ThermalMaterial implements Disposable {
       opacity: { value: 1 },
       amount: { value: 0 },
       
-      // Thermal gradient colors
-      color1: { value: colors[0] },
-      color2: { value: colors[1] },
-      color3: { value: colors[2] },
-      color4: { value: colors[3] },
-      color5: { value: colors[4] },
-      color6: { value: colors[5] },
-      color7: { value: colors[6] },
-      
-      // Gradient blend parameters
-      blend: { value: [...GRADIENT_CONFIG.BLEND_POINTS] as [number, number, number, number] },
-      fade: { value: [...GRADIENT_CONFIG.FADE_RANGES] as [number, number, number, number] },
-      maxBlend: { value: [...GRADIENT_CONFIG.MAX_BLEND] as [number, number, number, number] },
+      // Thermal gradient
+      paletteMap: { value: createPaletteTexture(this.palette) },
       
       // Effect parameters
       power: { value: 0.8 },
       rnd: { value: 0 },
       heat: { value: [0, 0, 0, 1.02] },
       stretch: { value: [1, 1, 0, 0] },
+      transparent: { value: config.transparent ? 1 : 0 },
+      fadeCenter: { value: [...(config.fadeCenter ?? THERMAL_EFFECT_CONFIG.layout.fadeCenter)] },
+      fadeRadius: { value: [...(config.fadeRadius ?? THERMAL_EFFECT_CONFIG.layout.fadeRadius)] },
       
       // HUD controllable parameters
       effectIntensity: { value: 1.0 },
       colorSaturation: { value: 1.3 },
       gradientShift: { value: 0.0 },
-      interactionSize: { value: 1.0 }
+      interactionSize: { value: 1.0 },
+      reactivity: { value: 1.0 }
     }
   }
 
   private createMaterial(): THREE.ShaderMaterial {
     return new THREE.ShaderMaterial({
+      defines: { SATURATION_PASS: 1, HEAT_DISTORTION: 1 },
       uniforms: this.uniforms,
       vertexShader: shaders.thermal.vertex,
       fragmentShader: shaders.thermal.fragment,
       depthTest: false,
-      transparent: true
+      transparent: true,
+      // The shader outputs premultiplied color
+      premultipliedAlpha: true
     })
   }
 
@@ -98,6 +95,7 @@ export class ThermalMaterial implements Disposable {
     colorSaturation?: number
     gradientShift?: number
     interactionSize?: number
+    reactivity?: number
     randomValue?: number
   }): void {
     if (updates.opacity !== undefined) {
@@ -124,6 +122,9 @@ export class ThermalMaterial implements Disposable {
     if (updates.interactionSize !== undefined) {
       this.uniforms.interactionSize.value = updates.interactionSize
     }
+    if (updates.reactivity !== undefined) {
+      this.uniforms.reactivity.value = updates.reactivity
+    }
     if (updates.randomValue !== undefined) {
       this.uniforms.rnd.value = updates.randomValue
     }
@@ -133,12 +134,12 @@ export class ThermalMaterial implements Disposable {
    * Update texture uniforms
    */
   updateTextures(textures: {
-    videoTexture?: THREE.VideoTexture
+    baseTexture?: THREE.Texture
     drawTexture?: THREE.Texture
     maskTexture?: THREE.Texture
   }): void {
-    if (textures.videoTexture) {
-      this.uniforms.textureMap.value = textures.videoTexture
+    if (textures.baseTexture) {
+      this.uniforms.textureMap.value = textures.baseTexture
     }
     if (textures.drawTexture) {
       this.uniforms.drawMap.value = textures.drawTexture
@@ -148,6 +149,13 @@ export class ThermalMaterial implements Disposable {
     }
   }
 
+  /**
+   * Choose which mask texture channel is read as coverage
+   */
+  setMaskChannel(channel: MaskChannel): void {
+    getChannelWeights(channel, this.uniforms.maskChannel.value)
+  }
+
   /**
    * Update transform uniforms
    */
@@ -163,6 +171,86 @@ export class ThermalMaterial implements Disposable {
     }
   }
 
+  /**
+   * Move or resize the circular fade (mesh UV)
+   */
+  setFade(center: [number, number], radius: [number, number]): void {
+    this.uniforms.fadeCenter.value = [...center]
+    this.uniforms.fadeRadius.value = [...radius]
+  }
+
+  /**
+   * Compile the shader for a quality tier; 'medium' samples the base field without the
+   * heat distortion (no dependent texture read), 'low' also skips the saturation pass
+   */
+  setQualityTier(tier: QualityTier): void {
+    const heatDistortion = tier === 'high' ? 1 : 0
+    const saturationPass = tier === 'low' ? 0 : 1
+    const { defines } = this.material
+    if (defines.HEAT_DISTORTION === heatDistortion && defines.SATURATION_PASS === saturationPass) return
+
+    defines.HEAT_DISTORTION = heatDistortion
+    defines.SATURATION_PASS = saturationPass
+    this.material.needsUpdate = true
+  }
+
+  /**
+   * Replace the thermal palette, re-baking the gradient texture
+   */
+  setPalette(stops: readonly PaletteStop[]): void {
+    this.assertValidPalette(stops)
+
+    this.paletteTransition = null
+    this.palette = clonePalette(stops)
+    updatePaletteTexture(this.uniforms.paletteMap.value, this.palette)
+  }
+
+  /**
+   * Start blending from the currently displayed gradient to `stops`.
+   * Drive the blend with setPaletteTransitionProgress().
+   */
+  transitionPalette(stops: readonly PaletteStop[]): void {
+    this.assertValidPalette(stops)
+
+    const texture = this.uniforms.paletteMap.value
+    const data = texture.image.data as Uint8Array
+    this.paletteTransition = {
+      from: data.slice(),
+      to: bakePalette(stops, texture.image.width)
+    }
+    this.palette = clonePalette(stops)
+  }
+
+  /**
+   * Set palette transition progress (0 = previous gradient, 1 = new palette)
+   */
+  setPaletteTransitionProgress(t: number): void {
+    if (!this.paletteTransition) return
+
+    const texture = this.uniforms.paletteMap.value
+    const { from, to } = this.paletteTransition
+    blendPaletteData(from, to, Math.min(Math.max(t, 0), 1), texture.image.data as Uint8Array)
+    texture.needsUpdate = true
+
+    if (t >= 1) {
+      this.paletteTransition = null
+    }
+  }
+
+  private assertValidPalette(stops: readonly PaletteStop[]): void {
+    const issues = getPaletteIssues(stops)
+    if (issues.length > 0) {
+      throw new Error(`Invalid palette: ${issues.join('; ')}`)
+    }
+  }
+
+  /**
+   * Get a copy of the current palette
+   */
+  getPalette(): PaletteStop[] {
+    return clonePalette(this.palette)
+  }
+
   /**
    * Batch update parameters from EffectParameters
    */
@@ -172,6 +260,7 @@ export class ThermalMaterial implements Disposable {
       colorSaturation: parameters.colorSaturation,
       gradientShift: parameters.gradientShift,
       interactionSize: parameters.interactionRadius,
+      reactivity: parameters.reactivity,
       power: parameters.contrastPower,
       blendVideo: parameters.videoBlendAmount
     })
@@ -196,5 +285,6 @@ export class ThermalMaterial implements Disposable {
    */
   dispose(): void {
     this.material.dispose()
+    this.uniforms.paletteMap.value.dispose()
   }
 }
\ No newline at end of file
@@ -0,0 +1,85 @@
+/**
+ * UrlStateSync - Keeps the look in the page URL so it can be shared as a link
+ */
+
+import type { Disposable, ShareableState, ThermalEffectConfig } from '../types'
+import { URL_STATE_CONFIG } from '../config/constants'
+import { addEventListenerWithCleanup } from '../utils/dom'
+import { buildShareUrl, decodeState } from '../utils/urlState'
+
+interface UrlStateSyncConfig {
+  mode: ThermalEffectConfig['urlState']['mode']
+  prefix: string
+  // Called when the URL is changed externally (back/forward, edited hash)
+  onExternalChange: (state: ShareableState) => void
+}
+
+export class UrlStateSync implements Disposable {
+  private mode: UrlStateSyncConfig['mode']
+  private prefix: string
+  private onExternalChange: UrlStateSyncConfig['onExternalChange']
+  private pendingWrite: ReturnType<typeof setTimeout> | null = null
+  private lastWritten: string | null = null
+  private cleanupFunctions: Array<() => void> = []
+
+  constructor(config: UrlStateSyncConfig) {
+    this.mode = config.mode
+    this.prefix = config.prefix
+    this.onExternalChange = config.onExternalChange
+
+    const event = this.mode === 'hash' ? 'hashchange' : 'popstate'
+    this.cleanupFunctions.push(
+      addEventListenerWithCleanup(window, event, this.handleLocationChange)
+    )
+  }
+
+  private getSource(): string {
+    return this.mode === 'hash' ? window.location.hash : window.location.search
+  }
+
+  private handleLocationChange = () => {
+    const source = this.getSource()
+    if (source === this.lastWritten) return
+
+    const state = decodeState(source, this.prefix)
+    if (state) this.onExternalChange(state)
+  }
+
+  /**
+   * Read state from the current URL, or null if it has none
+   */
+  read(): ShareableState | null {
+    return decodeState(this.getSource(), this.prefix)
+  }
+
+  /**
+   * Build a URL for `state` based on the current location
+   */
+  buildUrl(state: ShareableState): string {
+    return buildShareUrl(window.location.href, state, this.mode, this.prefix)
+  }
+
+  /**
+   * Update the URL (debounced) without adding history entries
+   */
+  write(state: ShareableState): void {
+    if (this.pendingWrite !== null) clearTimeout(this.pendingWrite)
+
+    this.pendingWrite = setTimeout(() => {
+      this.pendingWrite = null
+      const url = this.buildUrl(state)
+      window.history.replaceState(window.history.state, '', url)
+      this.lastWritten = this.getSource()
+    }, URL_STATE_CONFIG.WRITE_DEBOUNCE_MS)
+  }
+
+  /**
+   * Dispose of all resources and event listeners
+   */
+  dispose(): void {
+    if (this.pendingWrite !== null) clearTimeout(this.pendingWrite)
+    this.pendingWrite = null
+    this.cleanupFunctions.forEach(cleanup => cleanup())
+    this.cleanupFunctions = []
+  }
+}
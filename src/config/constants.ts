@@ -3,7 +3,7 @@
  * All magic numbers and default values are centralized here for easy maintenance
  */
 
-import type { ThermalEffectConfig, EffectParameters } from '../types'
+import type { ThermalEffectConfig, EffectParameters, ParameterControl, PaletteStop, Preset, ResponseCurve, InteractionMode, BlendMode, FitMode, QualityTier } from '../types'
 
 // Asset URLs - served from the public directory
 export const ASSETS = {
@@ -11,6 +11,24 @@ export const ASSETS = {
   VIDEO_URL: '/largetall_2x.mp4'
 } as const
 
+// Mask rasterization defaults (the bundled logo stores coverage in green)
+export const MASK_CONFIG = {
+  CHANNEL: 'green',
+  FIT: 'contain',
+  PADDING: 0,
+  RESOLUTION: 1024,
+  DEFAULT_FONT: 'system-ui, -apple-system, sans-serif',
+  DEFAULT_FONT_WEIGHT: 700
+} as const
+
+// Procedural base field defaults
+export const BASE_FIELD_CONFIG = {
+  SOURCE: 'video',
+  NOISE: 'fbm',
+  TEXTURE_SIZE: 256,
+  MAX_OCTAVES: 8
+} as const
+
 // Default effect parameters
 export const DEFAULT_PARAMETERS: EffectParameters = {
   // Visual parameters
@@ -24,7 +42,12 @@ export const DEFAULT_PARAMETERS: EffectParameters = {
   // Behavioral parameters
   heatDecay: 0.95,
   interactionRadius: 1.0,
-  reactivity: 1.0
+  reactivity: 1.0,
+
+  // Procedural field parameters
+  noiseSpeed: 1.0,
+  noiseScale: 2.5,
+  noiseOctaves: 5
 } as const
 
 // Apple's thermal gradient colors (black to red/orange spectrum)
@@ -38,6 +61,167 @@ export const THERMAL_PALETTE = [
   'a61904'  // Red
 ] as const
 
+// Default palette stops - reproduces the original 7-color blend chain.
+// Stops are blended in array order, so positions need not be increasing.
+export const DEFAULT_PALETTE: readonly PaletteStop[] = [
+  { color: THERMAL_PALETTE[0], position: 0, fade: 0 },
+  { color: THERMAL_PALETTE[1], position: 0.4, fade: 1 },
+  { color: THERMAL_PALETTE[2], position: 0.7, fade: 1 },
+  { color: THERMAL_PALETTE[3], position: 0.81, fade: 0.72 },
+  { color: THERMAL_PALETTE[4], position: 0.91, fade: 0.52 },
+  { color: THERMAL_PALETTE[5], position: 0.8, fade: 0.5 },
+  { color: THERMAL_PALETTE[6], position: 0.87, fade: 0.27 }
+]
+
+// Palette texture and editor limits
+export const PALETTE_CONFIG = {
+  TEXTURE_SIZE: 256,
+  MIN_STOPS: 2,
+  MAX_STOPS: 16,
+  DEFAULT_FADE: 0.2
+} as const
+
+// Preset library configuration
+export const PRESET_CONFIG = {
+  TRANSITION_DURATION: 0.8,
+  STORAGE_KEY: 'thermal-effect-presets'
+} as const
+
+// Built-in presets, always listed before user-saved ones
+export const BUILT_IN_PRESETS: readonly Preset[] = [
+  {
+    name: 'Apple Event',
+    parameters: { ...DEFAULT_PARAMETERS },
+    palette: DEFAULT_PALETTE.map(stop => ({ ...stop }))
+  },
+  {
+    name: 'Night Vision',
+    parameters: {
+      ...DEFAULT_PARAMETERS,
+      effectIntensity: 1.2,
+      contrastPower: 1.1,
+      colorSaturation: 1.0,
+      heatSensitivity: 0.7
+    },
+    palette: [
+      { color: '000000', position: 0, fade: 0 },
+      { color: '002a00', position: 0.3, fade: 0.5 },
+      { color: '00a028', position: 0.6, fade: 0.4 },
+      { color: '7dff7d', position: 0.8, fade: 0.3 },
+      { color: 'e8ffe8', position: 0.95, fade: 0.2 }
+    ]
+  },
+  {
+    name: 'Ice',
+    parameters: {
+      ...DEFAULT_PARAMETERS,
+      contrastPower: 0.6,
+      colorSaturation: 1.1,
+      heatDecay: 0.97,
+      reactivity: 0.6
+    },
+    palette: [
+      { color: '000000', position: 0, fade: 0 },
+      { color: '0b1d3a', position: 0.3, fade: 0.6 },
+      { color: '1f6fb2', position: 0.6, fade: 0.5 },
+      { color: '7fd3ff', position: 0.8, fade: 0.3 },
+      { color: 'ffffff', position: 0.95, fade: 0.2 }
+    ]
+  }
+]
+
+// Effect placement; a centered square fitted to the shorter side, faded at the edges
+export const LAYOUT_CONFIG = {
+  FIT: 'contain',
+  SIZE: 600,
+  ANCHOR: [0.5, 0.5],
+  OFFSET: [0, 0],
+  FADE_CENTER: [0.5, 0.52],
+  FADE_RADIUS: [0.38, 0.5]
+} as const
+
+// Fit modes accepted by config.layout.fit
+export const FIT_MODES: readonly FitMode[] = ['contain', 'cover', 'fill', 'fixed']
+
+// Scroll timeline (off unless tracks are configured)
+export const SCROLL_TIMELINE_CONFIG = {
+  ENABLED: false,
+  RANGE: [0, 1]
+} as const
+
+// Scroll animation values a timeline track may target besides EffectParameters
+export const SCROLL_ANIMATION_TARGETS = ['opacity', 'scale', 'power'] as const
+
+// Lifecycle defaults
+export const LIFECYCLE_CONFIG = {
+  AUTO_START: true,
+  PAUSE_WHEN_HIDDEN: true,
+  PAUSE_WHEN_OFFSCREEN: true
+} as const
+
+// Fallback rendering when WebGL or the base field is unavailable
+export const FALLBACK_CONFIG = {
+  ENABLED: true,
+  CANVAS: true,
+  RESOLUTION: 128,
+  FPS: 12,
+  POSTER_URL: null,
+  // Octaves of the CPU noise field; the rest are dropped to keep it cheap
+  MAX_NOISE_OCTAVES: 3
+} as const
+
+// Asset loading: per-attempt timeout, retries and backoff in seconds
+export const LOADING_CONFIG = {
+  TIMEOUT: 15,
+  RETRIES: 2,
+  BACKOFF: 0.5,
+  MAX_BACKOFF: 4
+} as const
+
+// Adaptive quality defaults
+export const QUALITY_CONFIG = {
+  ADAPTIVE: true,
+  PIXEL_RATIO: [0.75, 2],
+  // Pixel ratio removed per step down
+  PIXEL_RATIO_STEP: 0.25,
+  DRAW_TEXTURE_SIZE: [64, 256],
+  TIER: ['low', 'high'],
+  DOWNGRADE_RATIO: 0.8,
+  UPGRADE_RATIO: 0.95,
+  // Slowest display refresh rate assumed, in Hz; frame rates below it count as load
+  MIN_REFRESH_RATE: 50,
+  SAMPLE_WINDOW: 1,
+  UPGRADE_DELAY: 5,
+  COOLDOWN: 1,
+  // Procedural noise octave cap per tier
+  NOISE_OCTAVES: { low: 1, medium: 3, high: Infinity }
+} as const
+
+// Lowest to highest
+export const QUALITY_TIERS: readonly QualityTier[] = ['low', 'medium', 'high']
+
+// Canvas compositing
+export const OUTPUT_CONFIG = {
+  TRANSPARENT: false,
+  BLEND_MODE: 'normal'
+} as const
+
+// CSS mix-blend-mode used for each blend mode
+export const BLEND_MODE_CSS: Record<BlendMode, string> = {
+  normal: 'normal',
+  additive: 'plus-lighter',
+  screen: 'screen'
+}
+
+// Shareable URL state
+export const URL_STATE_CONFIG = {
+  ENABLED: false,
+  MODE: 'hash',
+  PREFIX: '',
+  WRITE_DEBOUNCE_MS: 250,
+  DECIMALS: 3
+} as const
+
 // Video playback configuration
 export const VIDEO_CONFIG = {
   LOOP_START_TIME: 2.95,
@@ -70,6 +254,7 @@ export const DRAW_RENDERER = {
   RADIUS_RATIO: 1000,
   MOBILE_RADIUS: 350,
   DESKTOP_RADIUS: 220,
+  MAX_BRUSHES: 10,
   
   // Shader uniform defaults
   UNIFORMS: {
@@ -80,18 +265,8 @@ export const DRAW_RENDERER = {
   }
 } as const
 
-// Shader gradient blend parameters
+// Shader gradient modifiers
 export const GRADIENT_CONFIG = {
-  // Blend points for color transitions
-  BLEND_POINTS: [0.4, 0.7, 0.81, 0.91] as const,
-  
-  // Fade ranges for smooth blending
-  FADE_RANGES: [1, 1, 0.72, 0.52] as const,
-  
-  // Maximum blend values
-  MAX_BLEND: [0.8, 0.87, 0.5, 0.27] as const,
-  
-  // Effect modifiers
   VERTICAL_GRADIENT_START: 0.2,
   VERTICAL_GRADIENT_END: 0.5,
   VERTICAL_GRADIENT_MIX: 0.91,
@@ -115,6 +290,7 @@ export const CAMERA_CONFIG = {
 
 // Interaction thresholds and limits
 export const INTERACTION = {
+  MODE: 'hover',
   HEAT_DECAY_MIN: 0.8,
   HEAT_DECAY_MAX: 0.99,
   HEAT_SENSITIVITY_MIN: 0.1,
@@ -134,6 +310,58 @@ export const INTERACTION = {
   HEAT_CLEANUP_THRESHOLD: 0.001
 } as const
 
+// Interaction modes offered in the HUD
+export const INTERACTION_MODES: ReadonlyArray<{ mode: InteractionMode; label: string }> = [
+  { mode: 'hover', label: 'Hover' },
+  { mode: 'press', label: 'Press' },
+  { mode: 'global', label: 'Global' },
+  { mode: 'off', label: 'Off' }
+]
+
+// Attract mode defaults (off unless a host opts in)
+export const ATTRACT = {
+  ENABLED: false,
+  IDLE_DELAY: 10,
+  PATTERN: 'lissajous',
+  SPEED: 0.6,
+  AMPLITUDE: 0.6,
+  FREQUENCIES: [3, 2],
+  // Reserved pointerId for the virtual pointer; browsers never hand out negative ids
+  POINTER_ID: -1,
+  // Radians per second the random walk may turn
+  WALK_TURN_RATE: 3
+} as const
+
+// Brush response to pen pressure, tilt and pointer speed
+// Pressure 0.5 (what mice and most touch screens report) and zero tilt leave the brush unchanged
+export const BRUSH_DYNAMICS = {
+  PRESSURE: {
+    INPUT_MIN: 0,
+    INPUT_MAX: 1,
+    EXPONENT: 1,
+    RADIUS: [0.6, 1.4],
+    HEAT: [0.2, 1.8],
+    DIRECTION: [1, 1]
+  },
+  TILT: {
+    INPUT_MIN: 0,
+    INPUT_MAX: 1,
+    EXPONENT: 1.5,
+    RADIUS: [1, 1.8],
+    HEAT: [1, 0.7],
+    DIRECTION: [1, 1]
+  },
+  SPEED: {
+    INPUT_MIN: 0,
+    INPUT_MAX: 3,
+    EXPONENT: 0.7,
+    RADIUS: [1, 1.25],
+    HEAT: [1, 1.3],
+    DIRECTION: [1, 1.5]
+  },
+  SPEED_DECAY: 0.85
+} as const
+
 // HUD parameter ranges
 export const PARAMETER_RANGES = {
   effectIntensity: { min: 0, max: 2, step: 0.1 },
@@ -144,9 +372,58 @@ export const PARAMETER_RANGES = {
   gradientShift: { min: -0.5, max: 0.5, step: 0.05 },
   heatDecay: { min: 0.8, max: 0.99, step: 0.01 },
   interactionRadius: { min: 0.1, max: 3, step: 0.1 },
-  reactivity: { min: 0.1, max: 3, step: 0.1 }
+  reactivity: { min: 0.1, max: 3, step: 0.1 },
+  noiseSpeed: { min: 0, max: 3, step: 0.1 },
+  noiseScale: { min: 0.5, max: 8, step: 0.1 },
+  noiseOctaves: { min: 1, max: 8, step: 1 }
 } as const
 
+// Frame clock configuration
+export const CLOCK_CONFIG = {
+  MAX_DELTA_TIME: 0.1,
+  FIXED_TIME_STEP: null,
+  MAX_SUB_STEPS: 5,
+  MANUAL: false
+} as const
+
+// Offline export defaults
+export const EXPORT_CONFIG = {
+  FPS: 60,
+  FORMAT: 'png',
+  DURATION: 5,
+  VIDEO_BITS_PER_SECOND: 16_000_000,
+  // Preferred WebCodecs encodings and their WebM codec IDs, best first
+  WEBCODECS_CODECS: [
+    { codec: 'vp09.00.41.08', codecId: 'V_VP9' },
+    { codec: 'vp8', codecId: 'V_VP8' }
+  ],
+  // Seconds between key frames in WebCodecs output
+  KEY_FRAME_INTERVAL: 2,
+  // Frames the encoder may queue before rendering waits for it
+  MAX_ENCODE_QUEUE: 4,
+  // Preferred MediaRecorder WebM encodings, best first
+  WEBM_MIME_TYPES: ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm']
+} as const
+
+// HUD slider definitions, in display order
+export const PARAMETER_CONTROLS: readonly ParameterControl[] = [
+  // Visual parameters
+  { id: 'effect-intensity', param: 'effectIntensity', valueId: 'intensity-value', label: 'Effect Intensity', group: 'visual' },
+  { id: 'contrast-power', param: 'contrastPower', valueId: 'power-value', label: 'Contrast Power', group: 'visual' },
+  { id: 'saturation', param: 'colorSaturation', valueId: 'saturation-value', label: 'Color Saturation', group: 'visual' },
+  { id: 'heat-sensitivity', param: 'heatSensitivity', valueId: 'heat-value', label: 'Heat Sensitivity', group: 'visual' },
+  { id: 'video-blend', param: 'videoBlendAmount', valueId: 'blend-value', label: 'Video Blend', group: 'visual' },
+  { id: 'gradient-shift', param: 'gradientShift', valueId: 'gradient-value', label: 'Gradient Shift', group: 'visual' },
+  // Behavioral parameters
+  { id: 'heat-decay', param: 'heatDecay', valueId: 'decay-value', label: 'Heat Decay', group: 'behavioral' },
+  { id: 'interaction-radius', param: 'interactionRadius', valueId: 'radius-value', label: 'Interaction Radius', group: 'behavioral' },
+  { id: 'reactivity', param: 'reactivity', valueId: 'reactivity-value', label: 'Reactivity', group: 'behavioral' },
+  // Procedural field parameters (only shown when baseField.source is 'procedural')
+  { id: 'noise-speed', param: 'noiseSpeed', valueId: 'noise-speed-value', label: 'Noise Speed', group: 'field' },
+  { id: 'noise-scale', param: 'noiseScale', valueId: 'noise-scale-value', label: 'Noise Scale', group: 'field' },
+  { id: 'noise-octaves', param: 'noiseOctaves', valueId: 'noise-octaves-value', label: 'Noise Octaves', group: 'field' }
+]
+
 // WebGL renderer settings
 export const RENDERER_CONFIG = {
   ALPHA: false,
@@ -168,11 +445,33 @@ export const RENDER_TARGET_OPTIONS = {
 } as const
 
 // Complete configuration object
+function responseCurve(curve: (typeof BRUSH_DYNAMICS)['PRESSURE' | 'TILT' | 'SPEED']): ResponseCurve {
+  return {
+    inputMin: curve.INPUT_MIN,
+    inputMax: curve.INPUT_MAX,
+    exponent: curve.EXPONENT,
+    radius: [...curve.RADIUS],
+    heat: [...curve.HEAT],
+    direction: [...curve.DIRECTION]
+  }
+}
+
 export const THERMAL_EFFECT_CONFIG: ThermalEffectConfig = {
   maskUrl: ASSETS.MASK_URL,
   videoUrl: ASSETS.VIDEO_URL,
+  mask: {
+    channel: MASK_CONFIG.CHANNEL,
+    fit: MASK_CONFIG.FIT,
+    padding: MASK_CONFIG.PADDING,
+    resolution: MASK_CONFIG.RESOLUTION
+  },
+  baseField: {
+    source: BASE_FIELD_CONFIG.SOURCE,
+    noise: BASE_FIELD_CONFIG.NOISE,
+    textureSize: BASE_FIELD_CONFIG.TEXTURE_SIZE
+  },
   defaultParameters: DEFAULT_PARAMETERS,
-  paletteHex: [...THERMAL_PALETTE],
+  palette: DEFAULT_PALETTE.map(stop => ({ ...stop })),
   videoLoop: {
     startTime: VIDEO_CONFIG.LOOP_START_TIME,
     endTime: VIDEO_CONFIG.LOOP_END_TIME
@@ -181,12 +480,108 @@ export const THERMAL_EFFECT_CONFIG: ThermalEffectConfig = {
     fadeInSpeed: ANIMATION.FADE_IN_SPEED,
     mouseInterpolationSpeed: ANIMATION.MOUSE_INTERPOLATION_SPEED,
     scrollInterpolationSpeed: ANIMATION.SCROLL_INTERPOLATION_SPEED,
-    heatMaxValue: ANIMATION.HEAT_MAX_VALUE
+    movementInterpolationSpeed: ANIMATION.MOVEMENT_INTERPOLATION_SPEED,
+    powerInterpolationSpeed: ANIMATION.POWER_INTERPOLATION_SPEED,
+    videoBlendSpeed: ANIMATION.VIDEO_BLEND_SPEED,
+    heatMaxValue: ANIMATION.HEAT_MAX_VALUE,
+    powerMin: ANIMATION.POWER_MIN,
+    powerMax: ANIMATION.POWER_MAX
   },
   drawRenderer: {
     textureSize: DRAW_RENDERER.TEXTURE_SIZE,
     radiusRatio: DRAW_RENDERER.RADIUS_RATIO,
     mobileRadius: DRAW_RENDERER.MOBILE_RADIUS,
-    desktopRadius: DRAW_RENDERER.DESKTOP_RADIUS
+    desktopRadius: DRAW_RENDERER.DESKTOP_RADIUS,
+    radiusVector: [...DRAW_RENDERER.UNIFORMS.RADIUS_VECTOR],
+    sizeDamping: DRAW_RENDERER.UNIFORMS.SIZE_DAMPING,
+    fadeDamping: DRAW_RENDERER.UNIFORMS.FADE_DAMPING,
+    directionMultiplier: DRAW_RENDERER.UNIFORMS.DIRECTION_MULTIPLIER,
+    maxBrushes: DRAW_RENDERER.MAX_BRUSHES
+  },
+  interaction: {
+    mode: INTERACTION.MODE,
+    holdMoveTarget: INTERACTION.HOLD_MOVE_TARGET,
+    releaseMoveTarget: INTERACTION.RELEASE_MOVE_TARGET,
+    holdPowerTarget: INTERACTION.HOLD_POWER_TARGET,
+    releasePowerTarget: INTERACTION.RELEASE_POWER_TARGET,
+    heatCleanupThreshold: INTERACTION.HEAT_CLEANUP_THRESHOLD
+  },
+  brushDynamics: {
+    pressure: responseCurve(BRUSH_DYNAMICS.PRESSURE),
+    tilt: responseCurve(BRUSH_DYNAMICS.TILT),
+    speed: responseCurve(BRUSH_DYNAMICS.SPEED),
+    speedDecay: BRUSH_DYNAMICS.SPEED_DECAY
+  },
+  attract: {
+    enabled: ATTRACT.ENABLED,
+    idleDelay: ATTRACT.IDLE_DELAY,
+    pattern: ATTRACT.PATTERN,
+    speed: ATTRACT.SPEED,
+    amplitude: ATTRACT.AMPLITUDE,
+    frequencies: [...ATTRACT.FREQUENCIES],
+    path: []
+  },
+  layout: {
+    fit: LAYOUT_CONFIG.FIT,
+    size: LAYOUT_CONFIG.SIZE,
+    anchor: [...LAYOUT_CONFIG.ANCHOR],
+    offset: [...LAYOUT_CONFIG.OFFSET],
+    fadeCenter: [...LAYOUT_CONFIG.FADE_CENTER],
+    fadeRadius: [...LAYOUT_CONFIG.FADE_RADIUS]
+  },
+  scrollTimeline: {
+    enabled: SCROLL_TIMELINE_CONFIG.ENABLED,
+    range: [...SCROLL_TIMELINE_CONFIG.RANGE],
+    tracks: {}
+  },
+  lifecycle: {
+    autoStart: LIFECYCLE_CONFIG.AUTO_START,
+    pauseWhenHidden: LIFECYCLE_CONFIG.PAUSE_WHEN_HIDDEN,
+    pauseWhenOffscreen: LIFECYCLE_CONFIG.PAUSE_WHEN_OFFSCREEN
+  },
+  fallback: {
+    enabled: FALLBACK_CONFIG.ENABLED,
+    canvas: FALLBACK_CONFIG.CANVAS,
+    resolution: FALLBACK_CONFIG.RESOLUTION,
+    fps: FALLBACK_CONFIG.FPS,
+    posterUrl: FALLBACK_CONFIG.POSTER_URL
+  },
+  loading: {
+    timeout: LOADING_CONFIG.TIMEOUT,
+    retries: LOADING_CONFIG.RETRIES,
+    backoff: LOADING_CONFIG.BACKOFF,
+    maxBackoff: LOADING_CONFIG.MAX_BACKOFF
+  },
+  quality: {
+    adaptive: QUALITY_CONFIG.ADAPTIVE,
+    pixelRatio: [...QUALITY_CONFIG.PIXEL_RATIO],
+    drawTextureSize: [...QUALITY_CONFIG.DRAW_TEXTURE_SIZE],
+    tier: [...QUALITY_CONFIG.TIER],
+    downgradeRatio: QUALITY_CONFIG.DOWNGRADE_RATIO,
+    upgradeRatio: QUALITY_CONFIG.UPGRADE_RATIO,
+    minRefreshRate: QUALITY_CONFIG.MIN_REFRESH_RATE,
+    sampleWindow: QUALITY_CONFIG.SAMPLE_WINDOW,
+    upgradeDelay: QUALITY_CONFIG.UPGRADE_DELAY,
+    cooldown: QUALITY_CONFIG.COOLDOWN
+  },
+  output: {
+    transparent: OUTPUT_CONFIG.TRANSPARENT,
+    blendMode: OUTPUT_CONFIG.BLEND_MODE
+  },
+  clock: {
+    maxDeltaTime: CLOCK_CONFIG.MAX_DELTA_TIME,
+    fixedTimeStep: CLOCK_CONFIG.FIXED_TIME_STEP,
+    maxSubSteps: CLOCK_CONFIG.MAX_SUB_STEPS,
+    manual: CLOCK_CONFIG.MANUAL
+  },
+  seed: null,
+  urlState: {
+    enabled: URL_STATE_CONFIG.ENABLED,
+    mode: URL_STATE_CONFIG.MODE,
+    prefix: URL_STATE_CONFIG.PREFIX
+  },
+  presets: {
+    transitionDuration: PRESET_CONFIG.TRANSITION_DURATION,
+    storageKey: PRESET_CONFIG.STORAGE_KEY
   }
-} as const
\ No newline at end of file
+} as const
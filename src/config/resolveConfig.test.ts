@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest'
+import type { DeepPartial, ThermalEffectConfig } from '../types'
+import { THERMAL_EFFECT_CONFIG } from './constants'
+import { ConfigValidationError, getLayoutIssues, resolveConfig } from './resolveConfig'
+
+function issuesOf(overrides: DeepPartial<ThermalEffectConfig>): string[] {
+  try {
+    resolveConfig(overrides)
+  } catch (error) {
+    if (error instanceof ConfigValidationError) return error.issues
+    throw error
+  }
+  return []
+}
+
+describe('resolveConfig', () => {
+  it('returns the defaults when nothing is overridden', () => {
+    expect(resolveConfig()).toEqual(THERMAL_EFFECT_CONFIG)
+  })
+
+  it('deep-merges overrides without touching the base config', () => {
+    const config = resolveConfig({ quality: { downgradeRatio: 0.5 }, output: { blendMode: 'screen' } })
+
+    expect(config.quality.downgradeRatio).toBe(0.5)
+    expect(config.quality.upgradeRatio).toBe(THERMAL_EFFECT_CONFIG.quality.upgradeRatio)
+    expect(config.output.blendMode).toBe('screen')
+    expect(THERMAL_EFFECT_CONFIG.quality.downgradeRatio).toBe(0.8)
+  })
+
+  it('reports every problem at once', () => {
+    const issues = issuesOf({
+      quality: { upgradeRatio: 0.5, minRefreshRate: 0 },
+      output: { blendMode: 'multiply' as never },
+      scrollTimeline: { range: [0.8, 0.2] }
+    })
+
+    expect(issues).toEqual(expect.arrayContaining([
+      'quality.upgradeRatio must be greater than quality.downgradeRatio',
+      expect.stringMatching(/^quality\.minRefreshRate /),
+      expect.stringMatching(/^output\.blendMode must be one of normal, additive, screen/),
+      'scrollTimeline.range must be increasing'
+    ]))
+    expect(issues).toHaveLength(4)
+  })
+
+  it('checks layouts on their own', () => {
+    expect(getLayoutIssues(THERMAL_EFFECT_CONFIG.layout)).toEqual([])
+    expect(getLayoutIssues({ ...THERMAL_EFFECT_CONFIG.layout, fit: 'stretch' as never })).not.toEqual([])
+  })
+})
@@ -0,0 +1,400 @@
+/**
+ * Config resolution - merges user overrides over the defaults and validates the result
+ */
+
+import type { DeepPartial, EffectParameters, LayoutOptions, ScrollTimelineConfig, ThermalEffectConfig } from '../types'
+import { THERMAL_EFFECT_CONFIG, PARAMETER_RANGES, INTERACTION_MODES, BLEND_MODE_CSS, FIT_MODES, SCROLL_ANIMATION_TARGETS, QUALITY_TIERS } from './constants'
+import { getPaletteIssues } from '../utils/palette'
+import { EASINGS } from '../utils/easing'
+
+/**
+ * Thrown when a resolved config contains invalid values
+ */
+export class ConfigValidationError extends Error {
+  readonly issues: string[]
+
+  constructor(issues: string[]) {
+    super(`Invalid thermal effect config:\n- ${issues.join('\n- ')}`)
+    this.name = 'ConfigValidationError'
+    this.issues = issues
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Recursively merge `overrides` into a copy of `base`. Arrays are replaced wholesale.
+ */
+function deepMerge<T>(base: T, overrides: DeepPartial<T> | undefined): T {
+  const result: Record<string, unknown> = { ...(base as Record<string, unknown>) }
+  if (!overrides) return result as T
+
+  Object.entries(overrides).forEach(([key, value]) => {
+    if (value === undefined) return
+
+    const current = result[key]
+    if (isPlainObject(current) && isPlainObject(value)) {
+      result[key] = deepMerge(current, value)
+    } else {
+      result[key] = Array.isArray(value) ? [...value] : value
+    }
+  })
+
+  return result as T
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
+
+function checkTuple(issues: string[], path: string, value: unknown, length: number): void {
+  if (!Array.isArray(value) || value.length !== length || !value.every(isFiniteNumber)) {
+    issues.push(`${path} must be an array of ${length} finite numbers`)
+  }
+}
+
+function checkAssetUrl(issues: string[], path: string, value: unknown): void {
+  const isCandidate = (candidate: unknown) =>
+    (typeof candidate === 'string' && candidate !== '') ||
+    (isPlainObject(candidate) && typeof candidate.url === 'string' && candidate.url !== '' &&
+      (candidate.type === undefined || typeof candidate.type === 'string') &&
+      (candidate.density === undefined || (isFiniteNumber(candidate.density) && candidate.density > 0)))
+  const valid = Array.isArray(value) ? value.length > 0 && value.every(isCandidate) : isCandidate(value)
+  if (!valid) {
+    issues.push(`${path} must be a non-empty string or a non-empty array of alternates`)
+  }
+}
+
+function checkPositive(issues: string[], path: string, value: unknown): void {
+  if (!isFiniteNumber(value) || value <= 0) {
+    issues.push(`${path} must be a positive number (got ${String(value)})`)
+  }
+}
+
+/**
+ * Describe every problem with a layout; empty when it is valid
+ */
+export function getLayoutIssues(layout: LayoutOptions): string[] {
+  const issues: string[] = []
+  if (!FIT_MODES.includes(layout.fit)) {
+    issues.push(`layout.fit must be one of ${FIT_MODES.join(', ')} (got ${String(layout.fit)})`)
+  }
+  checkPositive(issues, 'layout.size', layout.size)
+  checkTuple(issues, 'layout.anchor', layout.anchor, 2)
+  checkTuple(issues, 'layout.offset', layout.offset, 2)
+  checkTuple(issues, 'layout.fadeCenter', layout.fadeCenter, 2)
+  checkTuple(issues, 'layout.fadeRadius', layout.fadeRadius, 2)
+  if (Array.isArray(layout.fadeRadius) && !(layout.fadeRadius[0] < layout.fadeRadius[1])) {
+    issues.push('layout.fadeRadius must list the inner radius before the larger outer radius')
+  }
+  return issues
+}
+
+/**
+ * Describe every problem with a scroll timeline; empty when it is valid
+ */
+export function getScrollTimelineIssues(timeline: ScrollTimelineConfig): string[] {
+  const issues: string[] = []
+  if (typeof timeline.enabled !== 'boolean') {
+    issues.push('scrollTimeline.enabled must be a boolean')
+  }
+  checkTuple(issues, 'scrollTimeline.range', timeline.range, 2)
+  if (Array.isArray(timeline.range) && !(timeline.range[0] < timeline.range[1])) {
+    issues.push('scrollTimeline.range must be increasing')
+  }
+  if (!isPlainObject(timeline.tracks)) {
+    issues.push('scrollTimeline.tracks must be an object of keyframe arrays')
+    return issues
+  }
+
+  Object.entries(timeline.tracks).forEach(([target, keyframes]) => {
+    const path = `scrollTimeline.tracks.${target}`
+    const known = target in PARAMETER_RANGES ||
+      (SCROLL_ANIMATION_TARGETS as readonly string[]).includes(target)
+    if (!known) {
+      issues.push(`${path} is not an effect parameter or one of ${SCROLL_ANIMATION_TARGETS.join(', ')}`)
+    }
+    if (!Array.isArray(keyframes) || keyframes.length === 0) {
+      issues.push(`${path} must be a non-empty array of keyframes`)
+      return
+    }
+
+    keyframes.forEach((keyframe, index) => {
+      if (!isFiniteNumber(keyframe.at) || keyframe.at < 0 || keyframe.at > 1) {
+        issues.push(`${path}[${index}].at must be between 0 and 1`)
+      } else if (index > 0 && keyframe.at < keyframes[index - 1].at) {
+        issues.push(`${path}[${index}].at must not be before the previous keyframe`)
+      }
+      if (!isFiniteNumber(keyframe.value)) {
+        issues.push(`${path}[${index}].value must be a finite number`)
+      }
+      if (keyframe.easing !== undefined && !Object.hasOwn(EASINGS, keyframe.easing)) {
+        issues.push(`${path}[${index}].easing must be one of ${Object.keys(EASINGS).join(', ')}`)
+      }
+    })
+  })
+  return issues
+}
+
+/**
+ * Validate a fully resolved config, throwing ConfigValidationError listing every problem
+ */
+export function validateConfig(config: ThermalEffectConfig): void {
+  const issues: string[] = []
+
+  checkAssetUrl(issues, 'maskUrl', config.maskUrl)
+  checkAssetUrl(issues, 'videoUrl', config.videoUrl)
+
+  // Mask
+  if (!['alpha', 'luminance', 'red', 'green', 'blue'].includes(config.mask.channel)) {
+    issues.push(`mask.channel is not a valid channel: ${String(config.mask.channel)}`)
+  }
+  if (!['contain', 'cover', 'stretch'].includes(config.mask.fit)) {
+    issues.push(`mask.fit is not a valid fit mode: ${String(config.mask.fit)}`)
+  }
+  if (!isFiniteNumber(config.mask.padding) || config.mask.padding < 0 || config.mask.padding >= 0.5) {
+    issues.push('mask.padding must be between 0 and 0.5')
+  }
+  if (!Number.isInteger(config.mask.resolution) || config.mask.resolution <= 0) {
+    issues.push('mask.resolution must be a positive integer')
+  }
+
+  // Base field
+  if (!['video', 'procedural'].includes(config.baseField.source)) {
+    issues.push(`baseField.source must be 'video' or 'procedural': ${String(config.baseField.source)}`)
+  }
+  if (!['fbm', 'curl'].includes(config.baseField.noise)) {
+    issues.push(`baseField.noise must be 'fbm' or 'curl': ${String(config.baseField.noise)}`)
+  }
+  if (!Number.isInteger(config.baseField.textureSize) || config.baseField.textureSize <= 0) {
+    issues.push('baseField.textureSize must be a positive integer')
+  }
+
+  // Palette
+  issues.push(...getPaletteIssues(config.palette))
+
+  // Video loop
+  const { startTime, endTime } = config.videoLoop
+  if (!isFiniteNumber(startTime) || startTime < 0) {
+    issues.push('videoLoop.startTime must be a non-negative number')
+  }
+  if (!isFiniteNumber(endTime) || endTime <= startTime) {
+    issues.push('videoLoop.endTime must be greater than videoLoop.startTime')
+  }
+
+  // Parameters must be inside their HUD ranges
+  const parameterNames = Object.keys(PARAMETER_RANGES) as Array<keyof EffectParameters>
+  parameterNames.forEach(name => {
+    const value = config.defaultParameters[name]
+    const { min, max } = PARAMETER_RANGES[name]
+    if (!isFiniteNumber(value) || value < min || value > max) {
+      issues.push(`defaultParameters.${name} must be between ${min} and ${max} (got ${String(value)})`)
+    }
+  })
+
+  // Animation
+  Object.entries(config.animation).forEach(([key, value]) => {
+    checkPositive(issues, `animation.${key}`, value)
+  })
+  if (config.animation.powerMin > config.animation.powerMax) {
+    issues.push('animation.powerMin must not exceed animation.powerMax')
+  }
+
+  // Draw renderer
+  const { drawRenderer } = config
+  if (!Number.isInteger(drawRenderer.textureSize) || drawRenderer.textureSize <= 0) {
+    issues.push('drawRenderer.textureSize must be a positive integer')
+  }
+  checkPositive(issues, 'drawRenderer.radiusRatio', drawRenderer.radiusRatio)
+  checkPositive(issues, 'drawRenderer.mobileRadius', drawRenderer.mobileRadius)
+  checkPositive(issues, 'drawRenderer.desktopRadius', drawRenderer.desktopRadius)
+  checkTuple(issues, 'drawRenderer.radiusVector', drawRenderer.radiusVector, 3)
+  if (!Number.isInteger(drawRenderer.maxBrushes) || drawRenderer.maxBrushes < 1 || drawRenderer.maxBrushes > 32) {
+    issues.push('drawRenderer.maxBrushes must be an integer between 1 and 32')
+  }
+
+  // Interaction
+  if (!INTERACTION_MODES.some(({ mode }) => mode === config.interaction.mode)) {
+    issues.push(`interaction.mode is not a valid mode: ${String(config.interaction.mode)}`)
+  }
+
+  // Brush dynamics
+  const curves = ['pressure', 'tilt', 'speed'] as const
+  curves.forEach(name => {
+    const curve = config.brushDynamics[name]
+    const path = `brushDynamics.${name}`
+    if (!isFiniteNumber(curve.inputMin) || !isFiniteNumber(curve.inputMax) || curve.inputMax <= curve.inputMin) {
+      issues.push(`${path}.inputMax must be greater than ${path}.inputMin`)
+    }
+    checkPositive(issues, `${path}.exponent`, curve.exponent)
+    checkTuple(issues, `${path}.radius`, curve.radius, 2)
+    checkTuple(issues, `${path}.heat`, curve.heat, 2)
+    checkTuple(issues, `${path}.direction`, curve.direction, 2)
+  })
+  const { speedDecay } = config.brushDynamics
+  if (!isFiniteNumber(speedDecay) || speedDecay < 0 || speedDecay >= 1) {
+    issues.push('brushDynamics.speedDecay must be between 0 and 1 (exclusive)')
+  }
+
+  // Attract mode
+  const { attract } = config
+  if (typeof attract.enabled !== 'boolean') {
+    issues.push('attract.enabled must be a boolean')
+  }
+  if (!isFiniteNumber(attract.idleDelay) || attract.idleDelay < 0) {
+    issues.push('attract.idleDelay must be a non-negative number')
+  }
+  if (!['lissajous', 'randomWalk', 'path'].includes(attract.pattern)) {
+    issues.push(`attract.pattern must be 'lissajous', 'randomWalk' or 'path' (got ${String(attract.pattern)})`)
+  }
+  checkPositive(issues, 'attract.speed', attract.speed)
+  if (!isFiniteNumber(attract.amplitude) || attract.amplitude < 0 || attract.amplitude > 1) {
+    issues.push('attract.amplitude must be between 0 and 1')
+  }
+  checkTuple(issues, 'attract.frequencies', attract.frequencies, 2)
+  if (!Array.isArray(attract.path)) {
+    issues.push('attract.path must be an array of [x, y] points')
+  } else {
+    attract.path.forEach((point, index) => checkTuple(issues, `attract.path[${index}]`, point, 2))
+    if (attract.pattern === 'path' && attract.path.length < 2) {
+      issues.push("attract.path needs at least 2 points when attract.pattern is 'path'")
+    }
+  }
+
+  // Layout
+  issues.push(...getLayoutIssues(config.layout))
+
+  // Scroll timeline
+  issues.push(...getScrollTimelineIssues(config.scrollTimeline))
+
+  // Lifecycle
+  const booleanFlags = ['autoStart', 'pauseWhenHidden', 'pauseWhenOffscreen'] as const
+  booleanFlags.forEach(flag => {
+    if (typeof config.lifecycle[flag] !== 'boolean') {
+      issues.push(`lifecycle.${flag} must be a boolean`)
+    }
+  })
+
+  // Fallback
+  const { fallback } = config
+  if (typeof fallback.enabled !== 'boolean') {
+    issues.push('fallback.enabled must be a boolean')
+  }
+  if (typeof fallback.canvas !== 'boolean') {
+    issues.push('fallback.canvas must be a boolean')
+  }
+  if (!Number.isInteger(fallback.resolution) || fallback.resolution < 1) {
+    issues.push('fallback.resolution must be a positive integer')
+  }
+  checkPositive(issues, 'fallback.fps', fallback.fps)
+  if (fallback.posterUrl !== null && typeof fallback.posterUrl !== 'string') {
+    issues.push('fallback.posterUrl must be a string or null')
+  }
+
+  // Loading
+  const { loading } = config
+  if (!isFiniteNumber(loading.timeout) || loading.timeout < 0) {
+    issues.push('loading.timeout must be a non-negative number')
+  }
+  if (!Number.isInteger(loading.retries) || loading.retries < 0) {
+    issues.push('loading.retries must be a non-negative integer')
+  }
+  if (!isFiniteNumber(loading.backoff) || loading.backoff < 0) {
+    issues.push('loading.backoff must be a non-negative number')
+  }
+  if (!isFiniteNumber(loading.maxBackoff) || loading.maxBackoff < loading.backoff) {
+    issues.push('loading.maxBackoff must be a number no smaller than loading.backoff')
+  }
+
+  // Quality
+  const { quality } = config
+  if (typeof quality.adaptive !== 'boolean') {
+    issues.push('quality.adaptive must be a boolean')
+  }
+  checkTuple(issues, 'quality.pixelRatio', quality.pixelRatio, 2)
+  if (Array.isArray(quality.pixelRatio) && !(quality.pixelRatio[0] > 0 && quality.pixelRatio[0] <= quality.pixelRatio[1])) {
+    issues.push('quality.pixelRatio must be a positive [min, max] range')
+  }
+  checkTuple(issues, 'quality.drawTextureSize', quality.drawTextureSize, 2)
+  if (Array.isArray(quality.drawTextureSize) && !(
+    quality.drawTextureSize.every(size => Number.isInteger(size) && size > 0) &&
+    quality.drawTextureSize[0] <= quality.drawTextureSize[1]
+  )) {
+    issues.push('quality.drawTextureSize must be a [min, max] range of positive integers')
+  }
+  if (!Array.isArray(quality.tier) || quality.tier.length !== 2 || !quality.tier.every(tier => QUALITY_TIERS.includes(tier))) {
+    issues.push(`quality.tier must be a [min, max] pair of ${QUALITY_TIERS.join(', ')}`)
+  } else if (QUALITY_TIERS.indexOf(quality.tier[0]) > QUALITY_TIERS.indexOf(quality.tier[1])) {
+    issues.push('quality.tier must list the lower tier first')
+  }
+  checkPositive(issues, 'quality.downgradeRatio', quality.downgradeRatio)
+  if (!isFiniteNumber(quality.upgradeRatio) || quality.upgradeRatio > 1) {
+    issues.push('quality.upgradeRatio must be a number no larger than 1')
+  }
+  if (!(quality.downgradeRatio < quality.upgradeRatio)) {
+    issues.push('quality.upgradeRatio must be greater than quality.downgradeRatio')
+  }
+  checkPositive(issues, 'quality.minRefreshRate', quality.minRefreshRate)
+  checkPositive(issues, 'quality.sampleWindow', quality.sampleWindow)
+  checkPositive(issues, 'quality.upgradeDelay', quality.upgradeDelay)
+  if (!isFiniteNumber(quality.cooldown) || quality.cooldown < 0) {
+    issues.push('quality.cooldown must be a non-negative number')
+  }
+
+  // Output
+  if (typeof config.output.transparent !== 'boolean') {
+    issues.push('output.transparent must be a boolean')
+  }
+  if (!Object.hasOwn(BLEND_MODE_CSS, config.output.blendMode)) {
+    issues.push(`output.blendMode must be one of ${Object.keys(BLEND_MODE_CSS).join(', ')} (got ${String(config.output.blendMode)})`)
+  }
+
+  // Clock
+  checkPositive(issues, 'clock.maxDeltaTime', config.clock.maxDeltaTime)
+  if (config.clock.fixedTimeStep !== null) {
+    checkPositive(issues, 'clock.fixedTimeStep', config.clock.fixedTimeStep)
+  }
+  if (!Number.isInteger(config.clock.maxSubSteps) || config.clock.maxSubSteps < 1) {
+    issues.push('clock.maxSubSteps must be a positive integer')
+  }
+  if (typeof config.clock.manual !== 'boolean') {
+    issues.push('clock.manual must be a boolean')
+  }
+  if (config.seed !== null && !Number.isInteger(config.seed)) {
+    issues.push(`seed must be an integer or null (got ${String(config.seed)})`)
+  }
+
+  // URL state
+  if (config.urlState.mode !== 'hash' && config.urlState.mode !== 'query') {
+    issues.push(`urlState.mode must be 'hash' or 'query' (got ${String(config.urlState.mode)})`)
+  }
+  if (!/^[\w.-]*$/.test(config.urlState.prefix)) {
+    issues.push('urlState.prefix may only contain letters, digits, "_", "-" and "."')
+  }
+
+  // Presets
+  if (!isFiniteNumber(config.presets.transitionDuration) || config.presets.transitionDuration < 0) {
+    issues.push('presets.transitionDuration must be a non-negative number')
+  }
+  if (typeof config.presets.storageKey !== 'string' || config.presets.storageKey === '') {
+    issues.push('presets.storageKey must be a non-empty string')
+  }
+
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues)
+  }
+}
+
+/**
+ * Deep-merge overrides over THERMAL_EFFECT_CONFIG and validate the result
+ */
+export function resolveConfig(
+  overrides?: DeepPartial<ThermalEffectConfig>,
+  base: ThermalEffectConfig = THERMAL_EFFECT_CONFIG
+): ThermalEffectConfig {
+  const config = deepMerge(base, overrides)
+  validateConfig(config)
+  return config
+}
@@ -0,0 +1,62 @@
+/**
+ * Public library surface
+ */
+
+export { createThermalEffect } from './ThermalEffect'
+export { resolveConfig, validateConfig, ConfigValidationError } from './config/resolveConfig'
+export { paletteFromColors, samplePalette } from './utils/palette'
+export { createThermalSource, BaseSource } from './sources'
+export { AssetLoadError } from './utils/assets'
+export {
+  DEFAULT_PARAMETERS,
+  DEFAULT_PALETTE,
+  BUILT_IN_PRESETS,
+  THERMAL_PALETTE,
+  PARAMETER_RANGES,
+  THERMAL_EFFECT_CONFIG
+} from './config/constants'
+export type {
+  ActivePointer,
+  AssetCandidate,
+  AssetErrorCode,
+  AssetUrl,
+  AttractPattern,
+  BlendMode,
+  DeepPartial,
+  EasingName,
+  EffectParameters,
+  ExportFormat,
+  ExportOptions,
+  FitMode,
+  InteractionMode,
+  InteractionRecording,
+  LayoutOptions,
+  LifecycleHandler,
+  LifecycleState,
+  LoadingPhase,
+  LoadingState,
+  LoadingStateHandler,
+  MaskChannel,
+  MaskFit,
+  MaskOptions,
+  MaskSource,
+  PaletteStop,
+  PauseReason,
+  Preset,
+  QualityHandler,
+  QualityState,
+  QualityTier,
+  RenderMode,
+  RenderStatus,
+  RenderStatusHandler,
+  ReplayOptions,
+  ScrollKeyframe,
+  ScrollTarget,
+  ScrollTimelineConfig,
+  ThermalEffect,
+  ThermalEffectConfig,
+  ThermalEffectOptions,
+  ThermalSource,
+  ThermalSourceSpec,
+  ThermalSourceState
+} from './types'
@@ -14,126 +14,41 @@
  */
 
 import './demo.css'
-import { AppRenderer } from './renderer/AppRenderer'
-import { AppScene } from './scenes/AppScene'
+import type { ThermalEffect } from './types'
+import { createThermalEffect } from './ThermalEffect'
 import { getRequiredElement } from './utils/dom'
 
 // Create the simplified HTML structure for the demo
-document.querySelector<HTMLDivElement>('#app')!.innerHTML = `
+getRequiredElement<HTMLDivElement>('#app').innerHTML = `
   <main class="demo-container">
-    <div class="logo-demo">
-      <div class="canvas-wrapper">
-        <!-- WebGL container - this is where the Three.js magic happens -->
-        <div id="webgl" class="webgl-canvas">
-          <!-- Hitbox for capturing mouse/pointer interactions -->
-          <div class="interaction-area"></div>
-        </div>
-        <!-- Hidden video element used as texture source -->
-        <video id="demo-video" class="demo-video" muted loop preload="none"></video>
-        <!-- Simple play/pause button for video control -->
-        <div class="controls">
-          <button class="control-button" id="play-pause-btn">Play/Pause</button>
-        </div>
-      </div>
-    </div>
-    
-    <!-- Parameter Control HUD -->
-    <div class="hud" id="parameter-hud">
-      <div class="hud-header">
-        <h3>Effect Parameters</h3>
-        <button class="hud-toggle" id="hud-toggle">−</button>
-      </div>
-      <div class="hud-content" id="hud-content">
-        <div class="control-group">
-          <label for="effect-intensity">Effect Intensity</label>
-          <input type="range" id="effect-intensity" min="0" max="2" step="0.1" value="1">
-          <span class="value-display" id="intensity-value">1.0</span>
-        </div>
-        
-        <div class="control-group">
-          <label for="contrast-power">Contrast Power</label>
-          <input type="range" id="contrast-power" min="0.1" max="2" step="0.1" value="0.8">
-          <span class="value-display" id="power-value">0.8</span>
-        </div>
-        
-        <div class="control-group">
-          <label for="saturation">Color Saturation</label>
-          <input type="range" id="saturation" min="0.5" max="3" step="0.1" value="1.3">
-          <span class="value-display" id="saturation-value">1.3</span>
-        </div>
-        
-        <div class="control-group">
-          <label for="heat-sensitivity">Heat Sensitivity</label>
-          <input type="range" id="heat-sensitivity" min="0.1" max="2" step="0.1" value="0.5">
-          <span class="value-display" id="heat-value">0.5</span>
-        </div>
-        
-        <div class="control-group">
-          <label for="video-blend">Video Blend</label>
-          <input type="range" id="video-blend" min="0" max="1" step="0.1" value="1">
-          <span class="value-display" id="blend-value">1.0</span>
-        </div>
-        
-        <div class="control-group">
-          <label for="gradient-shift">Gradient Shift</label>
-          <input type="range" id="gradient-shift" min="-0.5" max="0.5" step="0.05" value="0">
-          <span class="value-display" id="gradient-value">0.0</span>
-        </div>
-        
-        <hr class="hud-separator">
-        <h4 class="section-title">Behavioral Effects</h4>
-        
-        <div class="control-group">
-          <label for="heat-decay">Heat Decay</label>
-          <input type="range" id="heat-decay" min="0.8" max="0.99" step="0.01" value="0.95">
-          <span class="value-display" id="decay-value">0.95</span>
-        </div>
-        
-
-        
-        <div class="control-group">
-          <label for="interaction-radius">Interaction Radius</label>
-          <input type="range" id="interaction-radius" min="0.1" max="3" step="0.1" value="1">
-          <span class="value-display" id="radius-value">1.0</span>
-        </div>
-        
-        <div class="control-group">
-          <label for="reactivity">Reactivity</label>
-          <input type="range" id="reactivity" min="0.1" max="3" step="0.1" value="1">
-          <span class="value-display" id="reactivity-value">1.0</span>
-        </div>
-        
-        <div class="control-group">
-          <button class="reset-button" id="reset-params">Reset to Defaults</button>
-        </div>
-      </div>
-    </div>
+    <div class="logo-demo"></div>
   </main>
 `
 
-// Global scene reference for cleanup
-let currentScene: AppScene | null = null
+// Global effect reference for cleanup
+let currentEffect: ThermalEffect | null = null
 
 /**
  * Initialize the application
  */
 async function initializeApp(): Promise<void> {
   try {
-    // Get WebGL container
-    const container = getRequiredElement('#webgl')
-
-    // Create renderer and scene
-    const renderer = new AppRenderer(container)
-    const scene = new AppScene(renderer)
-    currentScene = scene
-
-    // Connect renderer to scene
-    renderer.setScene(scene)
-    renderer.setCamera(scene.camera)
-    renderer.onUpdate = (deltaTime) => scene.update(deltaTime)
+    // Build the effect with its parameter HUD and play/pause button
+    const effect = createThermalEffect(getRequiredElement('.logo-demo'), {
+      hud: true,
+      controls: true,
+      // Keep the look in the URL hash so it can be shared as a link
+      config: { urlState: { enabled: true } },
+      onRenderStatusChange: ({ mode, reason }) => {
+        if (mode !== 'webgl') console.warn(`⚠️ Showing the ${mode} fallback:`, reason)
+      },
+      onLoadingChange: ({ phase, errors }) => {
+        if (phase === 'error') console.warn('⚠️ Some assets failed to load:', errors)
+      }
+    })
+    currentEffect = effect
 
-    // Initialize the scene (load assets, create materials, set up interactions)
-    await scene.init()
+    await effect.ready
 
     console.log('✅ Apple Event Logo Demo initialized successfully')
   } catch (error) {
@@ -170,38 +85,25 @@ function showErrorMessage(message: string): void {
   }, 5000)
 }
 
-/**
- * Handle page visibility changes for performance
- */
-function setupVisibilityHandling(): void {
-  document.addEventListener('visibilitychange', () => {
-    if (currentScene) {
-      // Could pause/resume animations based on visibility
-      // For now, just log the state change
-      console.log('Page visibility:', document.hidden ? 'hidden' : 'visible')
-    }
-  })
-}
-
 /**
  * Handle page unload cleanup
  */
 function setupCleanup(): void {
   window.addEventListener('beforeunload', () => {
-    if (currentScene) {
-      currentScene.dispose()
-      currentScene = null
-      console.log('🧹 Scene cleaned up before page unload')
+    if (currentEffect) {
+      currentEffect.dispose()
+      currentEffect = null
+      console.log('🧹 Effect cleaned up before page unload')
     }
   })
 
   // Handle hot module replacement in development
   if (import.meta.hot) {
     import.meta.hot.dispose(() => {
-      if (currentScene) {
-        currentScene.dispose()
-        currentScene = null
-        console.log('🔥 Scene cleaned up for HMR')
+      if (currentEffect) {
+        currentEffect.dispose()
+        currentEffect = null
+        console.log('🔥 Effect cleaned up for HMR')
       }
     })
   }
@@ -212,7 +114,6 @@ function setupCleanup(): void {
  */
 async function main(): Promise<void> {
   // Set up error handling and cleanup
-  setupVisibilityHandling()
   setupCleanup()
 
   // Initialize the app
@@ -226,4 +127,4 @@ main().catch(error => {
 })
 
 // Export for potential external use
-export { currentScene as scene }
\ No newline at end of file
+export { currentEffect as effect }
\ No newline at end of file
@@ -1,47 +1,234 @@
 import * as THREE from 'three'
+import type { AppRendererOptions, BlendMode, Disposable } from '../types'
+import { BLEND_MODE_CSS } from '../config/constants'
+import { FrameClock } from './FrameClock'
 
-export class AppRenderer {
+export class AppRenderer implements Disposable {
 	container: HTMLElement
 	rect: DOMRect
 	renderer: THREE.WebGLRenderer
 	scene: THREE.Scene | null = null
 	camera: THREE.Camera | null = null
 	onUpdate: ((dt: number) => void) | null = null
+	// Wall-clock duration of every frame the animation loop renders, in seconds
+	onFrame: ((frameTime: number) => void) | null = null
+	// WebGL context loss; three.js has re-initialised its state before onContextRestored runs
+	onContextLost: (() => void) | null = null
+	onContextRestored: (() => void) | null = null
+	readonly clock: FrameClock
+	readonly transparent: boolean
+	private running = false
+	private blendMode: BlendMode = 'normal'
+	private pixelRatio = window.devicePixelRatio || 1
+	private lastFrameTime: number | null = null
+	private contextLost = false
+	// Output size used instead of the container's, e.g. while exporting
+	private fixedSize: { width: number; height: number } | null = null
 
-	constructor(container: HTMLElement) {
+	constructor(container: HTMLElement, options: AppRendererOptions = {}) {
 		this.container = container
+		this.clock = new FrameClock(options.clock)
+		this.transparent = options.transparent ?? false
 		this.rect = container.getBoundingClientRect()
-		this.renderer = new THREE.WebGLRenderer({ alpha: false, antialias: false, logarithmicDepthBuffer: false })
+		this.renderer = new THREE.WebGLRenderer({
+			alpha: this.transparent,
+			premultipliedAlpha: true,
+			antialias: false,
+			logarithmicDepthBuffer: false
+		})
 		this.renderer.outputColorSpace = THREE.SRGBColorSpace
 		this.renderer.setSize(this.rect.width, this.rect.height)
-		this.renderer.setPixelRatio(window.devicePixelRatio || 1)
+		this.renderer.setPixelRatio(this.pixelRatio)
 		this.container.appendChild(this.renderer.domElement)
 		this.renderer.domElement.style.pointerEvents = 'none'
 		this.container.style.pointerEvents = 'auto'
 
-		window.addEventListener('resize', () => this.handleResize())
-		this.renderer.setAnimationLoop(() => this.loop())
+		window.addEventListener('resize', this.handleResize)
+		// Registered after three.js's own listeners, so its state is rebuilt before ours
+		this.renderer.domElement.addEventListener('webglcontextlost', this.handleContextLost)
+		this.renderer.domElement.addEventListener('webglcontextrestored', this.handleContextRestored)
+		this.resume()
 	}
 
 	setScene(scene: THREE.Scene) { this.scene = scene }
 	setCamera(camera: THREE.Camera) { this.camera = camera }
 
-	handleResize() {
+	get isRunning(): boolean { return this.running }
+	get isContextLost(): boolean { return this.contextLost }
+
+	/**
+	 * Composite the canvas over the page with a CSS blend mode
+	 */
+	setBlendMode(mode: BlendMode) {
+		this.blendMode = mode
+		this.renderer.domElement.style.mixBlendMode = BLEND_MODE_CSS[mode]
+	}
+
+	getBlendMode(): BlendMode { return this.blendMode }
+
+	/**
+	 * Size the simulation and output render at, in CSS pixels
+	 */
+	get size(): { width: number; height: number } {
+		return this.fixedSize ?? { width: this.rect.width, height: this.rect.height }
+	}
+
+	/**
+	 * Render at exactly width x height device pixels regardless of the container,
+	 * or pass null to follow the container again. The canvas keeps its CSS size.
+	 */
+	setFixedSize(size: { width: number; height: number } | null) {
+		this.fixedSize = size ? { ...size } : null
+		if (size) {
+			this.renderer.setPixelRatio(1)
+			this.renderer.setSize(size.width, size.height, false)
+		} else {
+			this.renderer.setPixelRatio(this.pixelRatio)
+			this.renderer.setSize(this.rect.width, this.rect.height)
+		}
+		this.notifyResize()
+	}
+
+	/**
+	 * Device pixels per CSS pixel of the canvas; ignored while a fixed size is set
+	 */
+	setPixelRatio(ratio: number) {
+		if (ratio === this.pixelRatio) return
+		this.pixelRatio = ratio
+		if (this.fixedSize) return
+		this.renderer.setPixelRatio(ratio)
+		this.renderer.setSize(this.rect.width, this.rect.height)
+	}
+
+	getPixelRatio(): number { return this.pixelRatio }
+
+	/**
+	 * Stop the animation loop, keeping all GPU resources alive
+	 */
+	pause() {
+		this.running = false
+		this.renderer.setAnimationLoop(null)
+	}
+
+	/**
+	 * Restart the animation loop after pause(). With a manual clock no loop is
+	 * started; frames are only produced by step().
+	 */
+	resume() {
+		if (this.running) return
+		this.running = true
+		this.clock.reset()
+		this.lastFrameTime = null
+		if (!this.clock.manual) {
+			this.renderer.setAnimationLoop((time) => this.loop(time))
+		}
+	}
+
+	handleResize = () => {
 		this.rect = this.container.getBoundingClientRect()
+		if (this.fixedSize) return
 		this.renderer.setSize(this.rect.width, this.rect.height)
+		this.notifyResize()
+	}
+
+	private handleContextLost = (event: Event) => {
+		// Without preventDefault the browser never restores the context
+		event.preventDefault()
+		this.contextLost = true
+		this.onContextLost?.()
+	}
+
+	private handleContextRestored = () => {
+		this.contextLost = false
+		this.onContextRestored?.()
+	}
+
+	private notifyResize() {
+		const { width, height } = this.size
 		const anyScene = this.scene as any
-		if (anyScene?.onResize) anyScene.onResize(this.rect.width, this.rect.height)
+		if (anyScene?.onResize) anyScene.onResize(width, height)
 	}
 
-	loop() {
-		this.onUpdate?.(1 / 60)
+	loop(time = performance.now()) {
+		this.advance(this.clock.tick(time))
+
+		if (this.lastFrameTime !== null) {
+			this.onFrame?.((time - this.lastFrameTime) / 1000)
+		}
+		this.lastFrameTime = time
+	}
+
+	/**
+	 * Advance by exactly `deltaTime` seconds and render one frame, without the animation loop
+	 */
+	step(deltaTime: number) {
+		this.advance(Math.max(0, deltaTime))
+	}
+
+	/**
+	 * Advance by exactly `deltaTime` seconds without drawing. Offline rendering calls
+	 * render() once the sources have caught up, e.g. after a video seek.
+	 */
+	simulateStep(deltaTime: number) {
+		this.advanceSimulation(Math.max(0, deltaTime))
+	}
+
+	/**
+	 * Draw the current state of the scene
+	 */
+	render() {
+		if (!this.scene || !this.camera) return
+		this.renderer.autoClear = true
+		this.renderer.render(this.scene, this.camera)
+	}
+
+	private advance(deltaTime: number) {
+		this.advanceSimulation(deltaTime)
+		this.render()
+	}
+
+	private advanceSimulation(deltaTime: number) {
+		const fixedStep = this.clock.fixedTimeStep
+
+		if (fixedStep === null) {
+			this.simulate(deltaTime)
+		} else {
+			const steps = this.clock.consumeSteps(deltaTime)
+			for (let i = 0; i < steps; i++) this.simulate(fixedStep)
+		}
+	}
+
+	/**
+	 * Advance the simulation, the base field source and the trail ping-pong by one step
+	 */
+	private simulate(deltaTime: number) {
+		this.onUpdate?.(deltaTime)
 		if (!this.scene || !this.camera) return
 		const anyScene = this.scene as any
+		if (anyScene.source) {
+			anyScene.source.update(this.renderer, deltaTime)
+		}
 		if (anyScene.drawRenderer) {
-			anyScene.drawRenderer.resize(this.rect.width, this.rect.height)
-			anyScene.drawRenderer.render(this.renderer)
+			anyScene.drawRenderer.resize(this.size.width, this.size.height)
+			anyScene.drawRenderer.render(this.renderer, deltaTime)
 		}
-		this.renderer.autoClear = true
-		this.renderer.render(this.scene, this.camera)
 	}
-}
\ No newline at end of file
+
+	/**
+	 * Stop rendering and release the WebGL context
+	 */
+	dispose() {
+		this.pause()
+		window.removeEventListener('resize', this.handleResize)
+		this.renderer.domElement.removeEventListener('webglcontextlost', this.handleContextLost)
+		this.renderer.domElement.removeEventListener('webglcontextrestored', this.handleContextRestored)
+		this.onUpdate = null
+		this.onFrame = null
+		this.onContextLost = null
+		this.onContextRestored = null
+		this.scene = null
+		this.camera = null
+		this.renderer.dispose()
+		this.renderer.domElement.remove()
+	}
+}
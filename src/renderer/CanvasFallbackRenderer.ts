@@ -0,0 +1,222 @@
+import type { Disposable, EffectParameters, MaskChannel, PaletteStop } from '../types'
+import { FALLBACK_CONFIG, PALETTE_CONFIG } from '../config/constants'
+import { bakePalette } from '../utils/palette'
+import { getChannelWeights } from '../utils/mask'
+import { clamp, smoothstep } from '../utils/math'
+
+interface CanvasFallbackOptions {
+	resolution: number
+	fps: number
+	// Write alpha from mask and fade instead of drawing over black
+	transparent: boolean
+	fadeCenter: [number, number]
+	fadeRadius: [number, number]
+	// Read on every frame, so preset transitions and HUD changes carry over
+	getParameters: () => Readonly<EffectParameters>
+	getPalette: () => readonly PaletteStop[]
+}
+
+function fract(x: number): number {
+	return x - Math.floor(x)
+}
+
+function hash(x: number, y: number, z: number): number {
+	x = fract(x * 0.3183099 + 0.1) * 17
+	y = fract(y * 0.3183099 + 0.1) * 17
+	z = fract(z * 0.3183099 + 0.1) * 17
+	return fract(x * y * z * (x + y + z))
+}
+
+// Smooth 3D value noise in [0, 1], the same construction as the procedural field shader
+function noise(x: number, y: number, z: number): number {
+	const ix = Math.floor(x), iy = Math.floor(y), iz = Math.floor(z)
+	let fx = x - ix, fy = y - iy, fz = z - iz
+	fx = fx * fx * (3 - 2 * fx)
+	fy = fy * fy * (3 - 2 * fy)
+	fz = fz * fz * (3 - 2 * fz)
+
+	const mix = (a: number, b: number, t: number) => a + (b - a) * t
+	return mix(
+		mix(mix(hash(ix, iy, iz), hash(ix + 1, iy, iz), fx),
+			mix(hash(ix, iy + 1, iz), hash(ix + 1, iy + 1, iz), fx), fy),
+		mix(mix(hash(ix, iy, iz + 1), hash(ix + 1, iy, iz + 1), fx),
+			mix(hash(ix, iy + 1, iz + 1), hash(ix + 1, iy + 1, iz + 1), fx), fy),
+		fz
+	)
+}
+
+function fbm(x: number, y: number, z: number, octaves: number): number {
+	let sum = 0
+	let amplitude = 0.5
+	let total = 0
+
+	for (let i = 0; i < Math.ceil(octaves); i++) {
+		const weight = clamp(octaves - i, 0, 1)
+		sum += noise(x, y, z) * amplitude * weight
+		total += amplitude * weight
+		x = x * 2.03 + 17
+		y = y * 2.03 + 31
+		z = z * 2.03
+		amplitude *= 0.5
+	}
+
+	return sum / Math.max(total, 1e-4)
+}
+
+/**
+ * Renders the thermal look on the CPU into a small 2D canvas: animated noise stands in
+ * for the video and is mapped through the same palette gradient, saturation and fade
+ * as the thermal shader, shaped by the mask.
+ */
+export class CanvasFallbackRenderer implements Disposable {
+	readonly canvas: HTMLCanvasElement
+	private context: CanvasRenderingContext2D
+	private image: ImageData
+	private options: CanvasFallbackOptions
+	// Mask coverage per pixel, top row first; null until setMask()
+	private coverage: Float32Array | null = null
+	private paletteData = new Uint8Array(PALETTE_CONFIG.TEXTURE_SIZE * 4)
+	private time = 0
+	private timer: ReturnType<typeof setInterval> | null = null
+
+	constructor(container: HTMLElement, options: CanvasFallbackOptions) {
+		this.options = options
+		this.canvas = document.createElement('canvas')
+		this.canvas.width = this.canvas.height = options.resolution
+		const context = this.canvas.getContext('2d')
+		if (!context) {
+			throw new Error('Canvas 2D is not available for the fallback renderer')
+		}
+		this.context = context
+		this.image = context.createImageData(options.resolution, options.resolution)
+
+		Object.assign(this.canvas.style, {
+			position: 'absolute',
+			inset: '0',
+			width: '100%',
+			height: '100%',
+			objectFit: 'contain',
+			pointerEvents: 'none'
+		})
+		container.appendChild(this.canvas)
+	}
+
+	get isPlaying(): boolean { return this.timer !== null }
+
+	/**
+	 * Move the circular fade; redraws right away so a paused canvas follows too
+	 */
+	setFade(center: [number, number], radius: [number, number]): void {
+		this.options.fadeCenter = [center[0], center[1]]
+		this.options.fadeRadius = [radius[0], radius[1]]
+		this.render()
+	}
+
+	/**
+	 * Read mask coverage from a rasterized mask image
+	 */
+	setMask(image: CanvasImageSource, channel: MaskChannel): void {
+		const size = this.options.resolution
+		const scratch = document.createElement('canvas')
+		scratch.width = scratch.height = size
+		const context = scratch.getContext('2d')
+		if (!context) {
+			throw new Error('Canvas 2D is not available for the fallback renderer')
+		}
+		context.drawImage(image, 0, 0, size, size)
+
+		const { data } = context.getImageData(0, 0, size, size)
+		const weights = getChannelWeights(channel).toArray()
+		const coverage = new Float32Array(size * size)
+		for (let i = 0; i < coverage.length; i++) {
+			const o = i * 4
+			coverage[i] = (data[o] * weights[0] + data[o + 1] * weights[1] + data[o + 2] * weights[2] + data[o + 3] * weights[3]) / 255
+		}
+		this.coverage = coverage
+		this.render()
+	}
+
+	play(): void {
+		if (this.timer !== null) return
+		const deltaTime = 1 / this.options.fps
+		this.timer = setInterval(() => {
+			this.time += deltaTime * this.options.getParameters().noiseSpeed
+			this.render()
+		}, deltaTime * 1000)
+	}
+
+	pause(): void {
+		if (this.timer === null) return
+		clearInterval(this.timer)
+		this.timer = null
+	}
+
+	/**
+	 * Draw one frame at the current time
+	 */
+	render(): void {
+		const coverage = this.coverage
+		if (!coverage) return
+
+		const parameters = this.options.getParameters()
+		const { fadeCenter, fadeRadius, transparent } = this.options
+		const size = this.options.resolution
+		const paletteSize = PALETTE_CONFIG.TEXTURE_SIZE
+		const palette = bakePalette(this.options.getPalette(), paletteSize, this.paletteData)
+		const octaves = Math.min(parameters.noiseOctaves, FALLBACK_CONFIG.MAX_NOISE_OCTAVES)
+		const z = this.time * 0.15
+		const data = this.image.data
+
+		for (let row = 0; row < size; row++) {
+			const v = 1 - (row + 0.5) / size
+			for (let column = 0; column < size; column++) {
+				const u = (column + 0.5) / size
+				const index = row * size + column
+				const o = index * 4
+				const mask = coverage[index]
+				if (mask <= 0) {
+					data[o] = data[o + 1] = data[o + 2] = 0
+					data[o + 3] = transparent ? 0 : 255
+					continue
+				}
+
+				// Base temperature, contrast and the vertical gradient of the thermal shader
+				let map = Math.pow(fbm(u * parameters.noiseScale, v * parameters.noiseScale, z, octaves), parameters.contrastPower)
+				map *= 0.91 + 0.09 * smoothstep(0.2, 0.5, v)
+
+				const fade = 1 - smoothstep(fadeRadius[0], fadeRadius[1], Math.hypot(u - fadeCenter[0], v - fadeCenter[1]))
+				const t = clamp(map + parameters.gradientShift, 0, 1)
+				const p = Math.round(t * (paletteSize - 1)) * 4
+				let r = palette[p] / 255
+				let g = palette[p + 1] / 255
+				let b = palette[p + 2] / 255
+
+				// Saturation around Rec. 709 luminance
+				const luminance = 0.2126729 * r + 0.7151522 * g + 0.072175 * b
+				const s = parameters.colorSaturation
+				// ImageData holds straight alpha, so with transparency the color stays unscaled
+				// and fade, intensity and mask only go into alpha
+				const scale = transparent ? 1 : fade * parameters.effectIntensity * mask
+				r = (luminance + (r - luminance) * s) * scale
+				g = (luminance + (g - luminance) * s) * scale
+				b = (luminance + (b - luminance) * s) * scale
+
+				data[o] = clamp(r, 0, 1) * 255
+				data[o + 1] = clamp(g, 0, 1) * 255
+				data[o + 2] = clamp(b, 0, 1) * 255
+				data[o + 3] = transparent ? clamp(mask * fade * parameters.effectIntensity, 0, 1) * 255 : 255
+			}
+		}
+
+		this.context.putImageData(this.image, 0, 0)
+	}
+
+	/**
+	 * Stop rendering and remove the canvas
+	 */
+	dispose(): void {
+		this.pause()
+		this.canvas.remove()
+		this.coverage = null
+	}
+}
@@ -1,7 +1,8 @@
 import * as THREE from 'three'
-import type { DrawRendererUniforms, DrawRendererOptions, Disposable } from '../types'
-import { DRAW_RENDERER, CAMERA_CONFIG } from '../config/constants'
+import type { DrawRendererUniforms, DrawRendererOptions, Disposable, ThermalEffectConfig, DrawBrush } from '../types'
+import { THERMAL_EFFECT_CONFIG, CAMERA_CONFIG } from '../config/constants'
 import { shaders } from '../shaders'
+import { decayFactor } from '../utils/math'
 
 export class DrawRenderer implements Disposable {
 	private camera: THREE.OrthographicCamera
@@ -11,10 +12,16 @@ export class DrawRenderer implements Disposable {
 	private scene: THREE.Scene
 	private mesh: THREE.Mesh
 	private uniforms: DrawRendererUniforms
+	private config: ThermalEffectConfig['drawRenderer']
 	private options: DrawRendererOptions
+	private brushes: DrawBrush[] = []
+	// Pending direction impulses by brush id, applied on the next render
+	private directions = new Map<number, THREE.Vector4>()
 
-	constructor(size = DRAW_RENDERER.TEXTURE_SIZE, options: DrawRendererOptions = {}) {
+	constructor(config = THERMAL_EFFECT_CONFIG.drawRenderer, options: DrawRendererOptions = {}) {
+		this.config = config
 		this.options = options
+		const size = config.textureSize
 		this.camera = new THREE.OrthographicCamera(
 			CAMERA_CONFIG.LEFT,
 			CAMERA_CONFIG.RIGHT,
@@ -41,6 +48,7 @@ export class DrawRenderer implements Disposable {
 
 		this.uniforms = this.createUniforms()
 		this.material = new THREE.ShaderMaterial({
+			defines: { MAX_BRUSHES: config.maxBrushes },
 			uniforms: this.uniforms,
 			vertexShader: shaders.draw.vertex,
 			fragmentShader: shaders.draw.fragment,
@@ -54,16 +62,19 @@ export class DrawRenderer implements Disposable {
 	}
 
 	private createUniforms(): DrawRendererUniforms {
-		const [radiusX, radiusY, radiusZ] = DRAW_RENDERER.UNIFORMS.RADIUS_VECTOR
+		const [radiusX, radiusY, radiusZ] = this.config.radiusVector
+		const slots = Array.from({ length: this.config.maxBrushes })
 		return {
 			uRadius: { value: new THREE.Vector3(radiusX, radiusY, radiusZ) },
-			uPosition: { value: new THREE.Vector2(0, 0) },
-			uDirection: { value: new THREE.Vector4(0, 0, 0, 0) },
+			uPosition: { value: slots.map(() => new THREE.Vector2(0, 0)) },
+			uDirection: { value: slots.map(() => new THREE.Vector4(0, 0, 0, 0)) },
+			uDraw: { value: slots.map(() => 0) },
+			uRadiusScale: { value: slots.map(() => 1) },
+			uBrushCount: { value: 0 },
 			uResolution: { value: new THREE.Vector3(0, 0, 0) },
 			uTexture: { value: null },
-			uSizeDamping: { value: DRAW_RENDERER.UNIFORMS.SIZE_DAMPING },
-			uFadeDamping: { value: DRAW_RENDERER.UNIFORMS.FADE_DAMPING },
-			uDraw: { value: 0 }
+			uSizeDamping: { value: this.config.sizeDamping },
+			uFadeDamping: { value: this.config.fadeDamping }
 		}
 	}
 
@@ -71,34 +82,24 @@ export class DrawRenderer implements Disposable {
 		this.uniforms.uRadius.value.z = px
 	}
 	
-	updateDraw(value = 0): void {
-		this.uniforms.uDraw.value = value
-	}
-	
-	updatePosition(position: { x: number; y: number }, normalized = false): void {
-		let x = position.x
-		let y = position.y
-		if (normalized) {
-			x = 0.5 * position.x + 0.5
-			y = 0.5 * position.y + 0.5
-		}
-		this.uniforms.uPosition.value.set(x, y)
+	/**
+	 * Set the brushes drawn on the next render; only the first maxBrushes are used
+	 */
+	updateBrushes(brushes: readonly DrawBrush[]): void {
+		this.brushes = brushes.slice(0, this.config.maxBrushes)
 	}
 	
-	updateDirection(direction: { x: number; y: number }): void {
-		this.uniforms.uDirection.value.set(
-			direction.x,
-			direction.y,
-			0,
-			DRAW_RENDERER.UNIFORMS.DIRECTION_MULTIPLIER
-		)
+	updateDirection(id: number, direction: { x: number; y: number }, strength = 1): void {
+		const value = this.directions.get(id) ?? new THREE.Vector4()
+		value.set(direction.x, direction.y, 0, this.config.directionMultiplier * strength)
+		this.directions.set(id, value)
 	}
 	
 	resize(width: number, height: number): void {
-		const ratio = height / (this.options.radiusRatio ?? DRAW_RENDERER.RADIUS_RATIO)
+		const ratio = height / this.config.radiusRatio
 		const baseRadius = this.options.isMobile 
-			? DRAW_RENDERER.MOBILE_RADIUS 
-			: DRAW_RENDERER.DESKTOP_RADIUS
+			? this.config.mobileRadius 
+			: this.config.desktopRadius
 		const radius = baseRadius * ratio
 		
 		this.updateRadius(radius)
@@ -109,13 +110,34 @@ export class DrawRenderer implements Disposable {
 		return this.renderTargetB.texture
 	}
 	
-	render(renderer: THREE.WebGLRenderer): void {
+	/**
+	 * Render one trail step. Fade and heat deposit are scaled by `deltaTime`
+	 * so the trail looks the same at any frame rate.
+	 */
+	render(renderer: THREE.WebGLRenderer, deltaTime = 1 / 60): void {
+		this.uniforms.uFadeDamping.value = decayFactor(this.config.fadeDamping, deltaTime)
+		this.uniforms.uBrushCount.value = this.brushes.length
+		this.brushes.forEach((brush, i) => {
+			// Brush positions arrive in NDC; the pass works in 0-1 UV space
+			this.uniforms.uPosition.value[i].set(0.5 * brush.position.x + 0.5, 0.5 * brush.position.y + 0.5)
+			this.uniforms.uDraw.value[i] = brush.heat * deltaTime * 60
+			this.uniforms.uRadiusScale.value[i] = brush.radius
+			const direction = this.directions.get(brush.id)
+			if (direction) {
+				this.uniforms.uDirection.value[i].copy(direction)
+			} else {
+				this.uniforms.uDirection.value[i].set(0, 0, 0, 0)
+			}
+		})
 		this.uniforms.uTexture.value = this.renderTargetB.texture
 		const previousTarget = renderer.getRenderTarget()
 		renderer.setRenderTarget(this.renderTargetA)
 		if (renderer.autoClear) renderer.clear()
 		renderer.render(this.scene, this.camera)
 		renderer.setRenderTarget(previousTarget)
+
+		// Direction is a one-shot impulse from the last pointer move
+		this.directions.clear()
 		
 		// Ping-pong between render targets
 		const temp = this.renderTargetA
@@ -123,6 +145,40 @@ export class DrawRenderer implements Disposable {
 		this.renderTargetB = temp
 	}
 
+	/**
+	 * Resize both targets and switch their mipmaps on or off. The trail starts over empty.
+	 */
+	setQuality(size: number, mipmaps: boolean): void {
+		if (this.renderTargetA.width === size && this.renderTargetA.texture.generateMipmaps === mipmaps) return
+
+		for (const target of [this.renderTargetA, this.renderTargetB]) {
+			target.texture.generateMipmaps = mipmaps
+			target.texture.minFilter = mipmaps ? THREE.LinearMipmapLinearFilter : THREE.LinearFilter
+			// Filtering is fixed when the target is allocated, so reallocate it
+			target.dispose()
+			target.setSize(size, size)
+		}
+	}
+
+	/**
+	 * Erase the trail in both targets and drop pending brushes and impulses
+	 */
+	clear(renderer: THREE.WebGLRenderer): void {
+		const previousTarget = renderer.getRenderTarget()
+		const previousColor = renderer.getClearColor(new THREE.Color())
+		const previousAlpha = renderer.getClearAlpha()
+		renderer.setClearColor(0x000000, 0)
+		for (const target of [this.renderTargetA, this.renderTargetB]) {
+			renderer.setRenderTarget(target)
+			renderer.clear()
+		}
+		renderer.setRenderTarget(previousTarget)
+		renderer.setClearColor(previousColor, previousAlpha)
+
+		this.brushes = []
+		this.directions.clear()
+	}
+
 	/**
 	 * Dispose of all resources
 	 */
@@ -0,0 +1,140 @@
+import * as THREE from 'three'
+import type { Disposable, EffectParameters, FieldRendererUniforms, ThermalEffectConfig } from '../types'
+import { THERMAL_EFFECT_CONFIG, CAMERA_CONFIG, DEFAULT_PARAMETERS } from '../config/constants'
+import { shaders } from '../shaders'
+
+/**
+ * Renders animated noise into a texture that stands in for the video
+ */
+export class FieldRenderer implements Disposable {
+	private camera: THREE.OrthographicCamera
+	private renderTarget: THREE.WebGLRenderTarget
+	private material: THREE.ShaderMaterial
+	private scene: THREE.Scene
+	private mesh: THREE.Mesh
+	private uniforms: FieldRendererUniforms
+	private speed: number = DEFAULT_PARAMETERS.noiseSpeed
+	private octaves: number = DEFAULT_PARAMETERS.noiseOctaves
+	private maxOctaves = Infinity
+	private time = 0
+	private playing = true
+	private dirty = true
+
+	constructor(config: ThermalEffectConfig['baseField'] = THERMAL_EFFECT_CONFIG.baseField) {
+		const size = config.textureSize
+		this.camera = new THREE.OrthographicCamera(
+			CAMERA_CONFIG.LEFT,
+			CAMERA_CONFIG.RIGHT,
+			CAMERA_CONFIG.TOP,
+			CAMERA_CONFIG.BOTTOM,
+			CAMERA_CONFIG.NEAR,
+			CAMERA_CONFIG.FAR
+		)
+		this.camera.position.z = CAMERA_CONFIG.POSITION_Z
+
+		this.renderTarget = new THREE.WebGLRenderTarget(size, size, {
+			type: THREE.UnsignedByteType,
+			format: THREE.RGBAFormat,
+			colorSpace: THREE.NoColorSpace,
+			depthBuffer: false,
+			stencilBuffer: false,
+			magFilter: THREE.LinearFilter,
+			minFilter: THREE.LinearFilter,
+			wrapS: THREE.RepeatWrapping,
+			wrapT: THREE.RepeatWrapping,
+			generateMipmaps: false
+		})
+
+		this.uniforms = {
+			uTime: { value: 0 },
+			uScale: { value: DEFAULT_PARAMETERS.noiseScale },
+			uOctaves: { value: DEFAULT_PARAMETERS.noiseOctaves },
+			uCurl: { value: config.noise === 'curl' ? 1 : 0 }
+		}
+		this.material = new THREE.ShaderMaterial({
+			uniforms: this.uniforms,
+			vertexShader: shaders.field.vertex,
+			fragmentShader: shaders.field.fragment,
+			depthTest: false
+		})
+
+		this.scene = new THREE.Scene()
+		this.mesh = new THREE.Mesh(new THREE.PlaneGeometry(1, 1), this.material)
+		this.scene.add(this.mesh)
+	}
+
+	get isPlaying(): boolean { return this.playing }
+
+	play(): void {
+		this.playing = true
+	}
+
+	pause(): void {
+		this.playing = false
+	}
+
+	updateFromParameters(parameters: Partial<EffectParameters>): void {
+		if (parameters.noiseSpeed !== undefined) {
+			this.speed = parameters.noiseSpeed
+		}
+		if (parameters.noiseScale !== undefined) {
+			this.uniforms.uScale.value = parameters.noiseScale
+			this.dirty = true
+		}
+		if (parameters.noiseOctaves !== undefined) {
+			this.octaves = parameters.noiseOctaves
+			this.updateOctaves()
+		}
+	}
+
+	/**
+	 * Cap the octaves rendered regardless of the noiseOctaves parameter
+	 */
+	setMaxOctaves(maxOctaves: number): void {
+		this.maxOctaves = maxOctaves
+		this.updateOctaves()
+	}
+
+	private updateOctaves(): void {
+		this.uniforms.uOctaves.value = Math.min(this.octaves, this.maxOctaves)
+		this.dirty = true
+	}
+
+	getTexture(): THREE.Texture {
+		return this.renderTarget.texture
+	}
+
+	/**
+	 * Redraw on the next render even if nothing changed, e.g. after a context loss
+	 */
+	invalidate(): void {
+		this.dirty = true
+	}
+
+	/**
+	 * Advance the noise by `deltaTime` and redraw it if anything changed
+	 */
+	render(renderer: THREE.WebGLRenderer, deltaTime = 1 / 60): void {
+		if (this.playing && this.speed > 0 && deltaTime > 0) {
+			this.time += deltaTime * this.speed
+			this.uniforms.uTime.value = this.time
+			this.dirty = true
+		}
+		if (!this.dirty) return
+
+		const previousTarget = renderer.getRenderTarget()
+		renderer.setRenderTarget(this.renderTarget)
+		renderer.render(this.scene, this.camera)
+		renderer.setRenderTarget(previousTarget)
+		this.dirty = false
+	}
+
+	/**
+	 * Dispose of all resources
+	 */
+	dispose(): void {
+		this.material.dispose()
+		this.renderTarget.dispose()
+		this.mesh.geometry.dispose()
+	}
+}
@@ -0,0 +1,66 @@
+import type { ClockConfig } from '../types'
+import { THERMAL_EFFECT_CONFIG } from '../config/constants'
+
+/**
+ * FrameClock - Measures real frame time for the animation loop
+ *
+ * Deltas are clamped to `maxDeltaTime` so a long gap (hidden tab, debugger
+ * pause) doesn't produce one huge simulation step. In fixed-timestep mode the
+ * elapsed time is accumulated and handed out as whole steps instead.
+ */
+export class FrameClock {
+	private config: ClockConfig
+	private lastTime: number | null = null
+	private accumulator = 0
+
+	constructor(config: Partial<ClockConfig> = {}) {
+		this.config = { ...THERMAL_EFFECT_CONFIG.clock, ...config }
+	}
+
+	get fixedTimeStep(): number | null {
+		return this.config.fixedTimeStep
+	}
+
+	get manual(): boolean {
+		return this.config.manual
+	}
+
+	/**
+	 * Advance the clock to `now` (milliseconds) and return the clamped delta in seconds
+	 */
+	tick(now: number): number {
+		const last = this.lastTime ?? now
+		this.lastTime = now
+
+		const delta = Math.max(0, (now - last) / 1000)
+		return Math.min(delta, this.config.maxDeltaTime)
+	}
+
+	/**
+	 * Split a frame delta into fixed steps. Leftover time carries over to the next frame.
+	 */
+	consumeSteps(deltaTime: number): number {
+		const step = this.config.fixedTimeStep
+		if (step === null) return 0
+
+		this.accumulator += deltaTime
+		let steps = Math.floor(this.accumulator / step)
+		this.accumulator -= steps * step
+
+		// Drop time we can't catch up on rather than spiralling
+		if (steps > this.config.maxSubSteps) {
+			steps = this.config.maxSubSteps
+			this.accumulator = 0
+		}
+
+		return steps
+	}
+
+	/**
+	 * Forget the previous timestamp so the next tick reports zero elapsed time
+	 */
+	reset(): void {
+		this.lastTime = null
+		this.accumulator = 0
+	}
+}
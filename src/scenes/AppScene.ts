@@ -9,16 +9,61 @@
  */
 
 import * as THREE from 'three'
-import type { EffectParameters, AnimationValues, Disposable } from '../types'
+import type { EffectParameters, AnimationValues, Disposable, ThermalEffectConfig, PaletteStop, Preset, ShareableState, MaskSource, MaskOptions, ThermalSource, ThermalSourceSpec, ThermalSourceState, SourceStateHandler, ActivePointer, DrawBrush, InteractionMode, InteractionRecording, ReplayOptions, LayoutOptions, ScrollTimelineConfig, ScrollTarget, QualityState, LoadingState, LoadingStateHandler } from '../types'
 import { AppRenderer } from '../renderer/AppRenderer'
 import { DrawRenderer } from '../renderer/DrawRenderer'
 import { InteractionManager } from '../components/InteractionManager'
 import { ParameterController } from '../components/ParameterController'
+import { PaletteEditor } from '../components/PaletteEditor'
+import { PresetManager } from '../components/PresetManager'
+import { PresetPanel } from '../components/PresetPanel'
+import { InteractionModePanel } from '../components/InteractionModePanel'
+import { AttractMode } from '../components/AttractMode'
+import { InteractionRecorder } from '../components/InteractionRecorder'
+import { InteractionPlayer } from '../components/InteractionPlayer'
+import { ScrollTimeline } from '../components/ScrollTimeline'
+import { UrlStateSync } from '../components/UrlStateSync'
 import { ThermalMaterial } from '../components/ThermalMaterial'
-import { ASSETS, VIDEO_CONFIG, ANIMATION, INTERACTION, CAMERA_CONFIG } from '../config/constants'
-import { loadTexture, createVideoElement, createVideoTexture, setupVideoReady } from '../utils/assets'
-import { lerp, lerpSpeed, clamp } from '../utils/math'
-import { isTouchDevice, getRequiredElement } from '../utils/dom'
+import { AssetLoader } from '../components/AssetLoader'
+import { ANIMATION, ATTRACT, CAMERA_CONFIG, PARAMETER_CONTROLS, SCROLL_ANIMATION_TARGETS } from '../config/constants'
+import { lerp, lerpSpeed, clamp, decayFactor, smoothstep } from '../utils/math'
+import { isTouchDevice, addEventListenerWithCleanup } from '../utils/dom'
+import { clonePalette, getPaletteIssues } from '../utils/palette'
+import { buildShareUrl } from '../utils/urlState'
+import { createMaskTexture } from '../utils/mask'
+import { createThermalSource } from '../sources'
+import { getBrushDynamics } from '../utils/brushDynamics'
+import { createRandom } from '../utils/random'
+import { cloneLayout, computeLayout } from '../utils/layout'
+import { getLayoutIssues, getScrollTimelineIssues } from '../config/resolveConfig'
+
+function isScrollAnimationTarget(
+  target: ScrollTarget
+): target is (typeof SCROLL_ANIMATION_TARGETS)[number] {
+  return (SCROLL_ANIMATION_TARGETS as readonly string[]).includes(target)
+}
+
+interface AppSceneConfig {
+  // Wrapper that receives the `loaded` class once assets are ready, and the loading state
+  // as `data-loading` and `--loading-progress` while they load
+  wrapper: HTMLElement
+  hitContainer?: HTMLElement
+  playButton?: HTMLButtonElement | null
+  // Element the parameter HUD is rendered into; null disables the HUD
+  hudContainer?: HTMLElement | null
+  idPrefix: string
+  // Initial mask; defaults to effectConfig.maskUrl
+  mask?: MaskSource
+  // Initial base field source; defaults to the configured video or procedural field
+  source?: ThermalSourceSpec
+  onSourceStateChange?: SourceStateHandler
+  // Whether any base field is showing, after a source becomes ready or fails to load
+  onSourceAvailabilityChange?: (available: boolean, error: Error | null) => void
+  onLoadingChange?: LoadingStateHandler
+
+  // Fully resolved effect configuration (see resolveConfig)
+  effectConfig: ThermalEffectConfig
+}
 
 export class AppScene extends THREE.Scene implements Disposable {
   // Core components
@@ -28,23 +73,57 @@ export class AppScene extends THREE.Scene implements Disposable {
   private interactionManager!: InteractionManager
   private parameterController!: ParameterController
   private thermalMaterial!: ThermalMaterial
+  private paletteEditor: PaletteEditor | null = null
+  private presetManager: PresetManager
+  private presetPanel: PresetPanel | null = null
+  private interactionModePanel: InteractionModePanel | null = null
+  private attractMode: AttractMode
+  private scrollTimeline: ScrollTimeline
+  private recorder = new InteractionRecorder()
+  private player: InteractionPlayer | null = null
+  private finishReplay: (() => void) | null = null
+  private urlStateSync: UrlStateSync | null = null
+  private config: AppSceneConfig
+  private effectConfig: ThermalEffectConfig
 
   // 3D objects
   private heatMesh!: THREE.Mesh
 
   // Media assets
-  private video!: HTMLVideoElement
-  private videoTexture!: THREE.VideoTexture
+  private loader: AssetLoader
+  private source: ThermalSource | null = null
+  private pendingSource: ThermalSource | null = null
+  private sourceRequest = 0
   private maskTexture!: THREE.Texture
+  private maskOptions: MaskOptions
+  private maskLoading: Promise<void> | null = null
+  private maskRequest = 0
 
   // DOM elements
-  private animationWrapper!: HTMLElement
-  private playButton!: HTMLButtonElement
+  private animationWrapper: HTMLElement
+  private playButton: HTMLButtonElement | null
+  private cleanupFunctions: Array<() => void> = []
 
   // State
-  private videoReady = false
+  private palette: PaletteStop[]
+  private activePreset: string | null = null
+  private interactionMode: InteractionMode
+  private presetTransition: { from: EffectParameters; to: Preset; duration: number } | null = null
+  private random: () => number
+  private manualClock: boolean
+  private layout: LayoutOptions
+  private quality: QualityState | null = null
+  private viewSize = { width: 1, height: 1 }
+  private liveInput = true
+  // Seconds simulated so far; the time base for virtual pointers
+  private elapsedTime = 0
+  private resumeSourceOnResume = false
+  // Scroll tracks changed parameters without updating the HUD yet
+  private scrollControlsStale = false
   private textureReady = false
-  private heatUp = 0
+  // 'failed' when the first mask did not load; a later setMask() finishes the setup
+  private initStage: 'idle' | 'loading' | 'failed' | 'done' = 'idle'
+  private disposed = false
 
   // Animation values
   private animationValues: AnimationValues = {
@@ -55,6 +134,7 @@ export class AppScene extends THREE.Scene implements Disposable {
       target: new THREE.Vector3(0, 0, 0) 
     },
     move: { value: 1, target: 1 },
+    preset: { value: 1, target: 1 },
     scrollAnimation: {
       opacity: { value: 1, target: 1 },
       scale: { value: 1, target: 1 },
@@ -62,9 +142,30 @@ export class AppScene extends THREE.Scene implements Disposable {
     }
   }
 
-  constructor(rendererWrapper: AppRenderer) {
+  constructor(rendererWrapper: AppRenderer, config: AppSceneConfig) {
     super()
     this.rendererWrapper = rendererWrapper
+    this.config = config
+    this.effectConfig = config.effectConfig
+    this.palette = clonePalette(this.effectConfig.palette)
+    this.maskOptions = { ...this.effectConfig.mask }
+    this.interactionMode = this.effectConfig.interaction.mode
+    this.random = createRandom(this.effectConfig.seed)
+    this.manualClock = this.effectConfig.clock.manual
+    this.layout = cloneLayout(this.effectConfig.layout)
+    this.attractMode = new AttractMode(this.effectConfig.attract, this.random)
+    this.presetManager = new PresetManager({ storageKey: this.effectConfig.presets.storageKey })
+    this.animationWrapper = config.wrapper
+    this.loader = new AssetLoader({
+      config: this.effectConfig.loading,
+      element: config.wrapper,
+      onChange: config.onLoadingChange
+    })
+    this.playButton = config.playButton ?? null
+    this.scrollTimeline = new ScrollTimeline({
+      element: config.wrapper,
+      config: this.effectConfig.scrollTimeline
+    })
 
     // Set up orthographic camera
     this.camera = new THREE.OrthographicCamera(
@@ -77,32 +178,56 @@ export class AppScene extends THREE.Scene implements Disposable {
     )
     this.camera.position.z = CAMERA_CONFIG.POSITION_Z
 
-    this.setupDOMReferences()
+    // Parameters are available before assets load so hosts can set them early
+    this.setupParameterController()
+    this.setupPresetPanel()
+    this.setupInteractionModePanel()
+    this.setupPaletteEditor()
     this.setupPlayPauseButton()
-  }
-
-  private setupDOMReferences(): void {
-    this.animationWrapper = getRequiredElement('.canvas-wrapper')
-    this.playButton = getRequiredElement<HTMLButtonElement>('#play-pause-btn')
+    this.setupUrlState()
   }
 
   private setupPlayPauseButton(): void {
-    this.playButton.addEventListener('click', this.handleToggleVideo.bind(this))
+    if (!this.playButton) return
+    this.cleanupFunctions.push(
+      addEventListenerWithCleanup(this.playButton, 'click', this.handleTogglePlayback.bind(this))
+    )
   }
 
   /**
    * Initialize the scene - Load assets, create components, set up interactions
    */
   async init(): Promise<void> {
-    // Set renderer clear color
-    this.rendererWrapper.renderer.setClearColor(0x000000)
+    // Set renderer clear color; fully transparent when the page should show through
+    this.rendererWrapper.renderer.setClearColor(0x000000, this.rendererWrapper.transparent ? 0 : 1)
 
     // Initialize draw renderer for mouse trail effects
     const isMobile = isTouchDevice()
-    this.drawRenderer = new DrawRenderer(256, { radiusRatio: 1000, isMobile })
+    this.drawRenderer = new DrawRenderer(this.effectConfig.drawRenderer, { isMobile })
+    if (this.quality) {
+      this.drawRenderer.setQuality(this.quality.drawTextureSize, this.quality.tier !== 'low')
+    }
+
+    // Load assets in parallel. Without a mask the rest waits for a later setMask()
+    this.initStage = 'loading'
+    try {
+      await this.loadAssets()
+    } catch (error) {
+      // A setMask() made while loading may have succeeded even though the first mask failed
+      if (!this.maskTexture) {
+        this.initStage = 'failed'
+        throw error
+      }
+    }
+    this.completeInit()
+  }
 
-    // Load assets in parallel
-    await this.loadAssets()
+  /**
+   * Build the material, mesh and interactions once the first mask is available
+   */
+  private completeInit(): void {
+    if (this.initStage === 'done' || this.disposed) return
+    this.initStage = 'done'
 
     // Create thermal material and mesh
     this.createThermalEffect()
@@ -110,67 +235,74 @@ export class AppScene extends THREE.Scene implements Disposable {
     // Initialize interaction management
     this.setupInteractionManager()
 
-    // Initialize parameter controller
-    this.setupParameterController()
-
     // Set up camera projection
-    this.onResize(this.rendererWrapper.rect.width, this.rendererWrapper.rect.height)
+    this.onResize(this.rendererWrapper.size.width, this.rendererWrapper.size.height)
 
     // Show animation controls
     this.animationWrapper.classList.add('loaded')
   }
 
   private async loadAssets(): Promise<void> {
-    const { width, height } = this.rendererWrapper.rect
+    // The base field source is not awaited: a webcam may wait on a permission
+    // prompt, and the effect fades in once the source is ready
+    this.setSource(this.getInitialSource()).catch(error => {
+      console.error('Failed to load thermal source:', error)
+    })
 
-    // Load mask texture and create video element in parallel
-    const [maskTexture] = await Promise.all([
-      loadTexture(ASSETS.MASK_URL),
-      this.createVideoElement(width, height)
-    ])
+    await this.setMask(this.config.mask ?? { type: 'url', url: this.effectConfig.maskUrl })
 
-    this.maskTexture = maskTexture
+    // A setMask() call made while loading may still be in flight
+    while (!this.maskTexture && this.maskLoading) {
+      await this.maskLoading
+    }
   }
 
-  private async createVideoElement(width: number, height: number): Promise<void> {
-    this.video = createVideoElement(ASSETS.VIDEO_URL, width, height, {
-      muted: VIDEO_CONFIG.MUTED,
-      autoplay: VIDEO_CONFIG.AUTOPLAY,
-      controls: VIDEO_CONFIG.CONTROLS,
-      loop: true
-    })
-
-    setupVideoReady(this.video, this.handleVideoReady.bind(this))
+  private getInitialSource(): ThermalSourceSpec {
+    if (this.config.source) return this.config.source
+    if (this.effectConfig.baseField.source === 'procedural') return { type: 'procedural' }
+    return { type: 'video', url: this.effectConfig.videoUrl, loop: this.effectConfig.videoLoop }
   }
 
-  private handleVideoReady(): void {
-    if (this.videoReady) return
-
-    this.videoTexture = createVideoTexture(this.video)
-    
-    // Update thermal material with video texture
-    if (this.thermalMaterial) {
-      this.thermalMaterial.updateTextures({ videoTexture: this.videoTexture })
-    }
+  private handleSourceReady(source: ThermalSource): void {
+    const previous = this.source
+    this.source = source
+    source.updateFromParameters?.(this.parameterController.getAllParameters())
+    source.setManualClock?.(this.manualClock)
+    if (this.quality) source.setQualityTier?.(this.quality.tier)
+    this.thermalMaterial?.updateTextures({ baseTexture: source.getTexture() ?? undefined })
+    previous?.dispose()
 
     // Start animation
-    this.animationValues.amount.target = 1
-    this.animationValues.blendVideo.value = 1
-    this.videoReady = true
-    this.textureReady = true
+    if (!this.textureReady) {
+      this.animationValues.amount.target = 1
+      this.animationValues.blendVideo.value = 1
+      this.textureReady = true
+    }
 
-    // Start video playback and update UI
-    this.video.play().catch(() => {})
+    // Start playback unless the host paused the effect while loading
+    if (this.rendererWrapper.isRunning) {
+      source.play()
+    } else {
+      this.resumeSourceOnResume = true
+    }
     this.updatePlayButtonState()
+    this.config.onSourceAvailabilityChange?.(true, null)
   }
 
   private createThermalEffect(): void {
     // Create thermal material
     this.thermalMaterial = new ThermalMaterial({
       drawTexture: this.drawRenderer.getTexture(),
-      videoTexture: this.videoTexture,
-      maskTexture: this.maskTexture
+      baseTexture: this.source?.getTexture() ?? null,
+      maskTexture: this.maskTexture,
+      maskChannel: this.maskOptions.channel,
+      palette: this.palette,
+      transparent: this.rendererWrapper.transparent,
+      fadeCenter: this.layout.fadeCenter,
+      fadeRadius: this.layout.fadeRadius
     })
+    this.thermalMaterial.updateFromParameters(this.parameterController.getAllParameters())
+    if (this.quality) this.thermalMaterial.setQualityTier(this.quality.tier)
 
     // Create mesh and add to scene
     this.heatMesh = new THREE.Mesh(
@@ -181,129 +313,318 @@ export class AppScene extends THREE.Scene implements Disposable {
   }
 
   private setupInteractionManager(): void {
-    const hitContainer = document.querySelector('.interaction-area') as HTMLElement
-    
+    const { interaction } = this.effectConfig
+
     this.interactionManager = new InteractionManager({
       container: this.rendererWrapper.container,
-      hitContainer,
-      onPositionUpdate: (position, direction) => {
+      hitContainer: this.config.hitContainer,
+      mode: this.interactionMode,
+      onPositionUpdate: (position, direction, pointer) => {
+        this.recorder.recordMove(pointer, direction)
         this.animationValues.mouse.target.copy(position)
-        this.drawRenderer.updateDirection(direction)
+        // Reactivity scales how strongly pointer velocity distorts the trail
+        const { reactivity } = this.parameterController.getAllParameters()
+        const dynamics = getBrushDynamics(pointer, this.effectConfig.brushDynamics)
+        this.drawRenderer.updateDirection(pointer.pointerId, direction, reactivity * dynamics.direction)
       },
       onInteractionChange: (isInteracting) => {
-        this.animationValues.move.target = isInteracting ? INTERACTION.HOLD_MOVE_TARGET : INTERACTION.RELEASE_MOVE_TARGET
-        this.animationValues.scrollAnimation.power.target = isInteracting ? INTERACTION.HOLD_POWER_TARGET : INTERACTION.RELEASE_POWER_TARGET
-      }
+        this.animationValues.move.target = isInteracting ? interaction.holdMoveTarget : interaction.releaseMoveTarget
+        this.animationValues.scrollAnimation.power.target = isInteracting ? interaction.holdPowerTarget : interaction.releasePowerTarget
+      },
+      onInput: () => this.attractMode.notifyInput(),
+      onHoldChange: (pointer) => this.recorder.recordHold(pointer)
     })
   }
 
   private setupParameterController(): void {
     this.parameterController = new ParameterController({
-      onParameterChange: (_name, _value) => {
+      container: this.config.hudContainer ?? null,
+      idPrefix: this.config.idPrefix,
+      defaults: this.effectConfig.defaultParameters,
+      // Noise sliders only matter when the procedural field is in use
+      controls: this.effectConfig.baseField.source === 'procedural'
+        ? PARAMETER_CONTROLS
+        : PARAMETER_CONTROLS.filter(control => control.group !== 'field'),
+      onParameterChange: (_names, transient) => {
         // Update thermal material with new parameter values
         const parameters = this.parameterController.getAllParameters()
-        this.thermalMaterial.updateFromParameters(parameters)
+        this.thermalMaterial?.updateFromParameters(parameters)
+        this.source?.updateFromParameters?.(parameters)
+        // Animated values reach the URL once the animation settles
+        if (!transient) this.scheduleUrlUpdate()
       },
       onReset: () => {
         // Reset parameters and update material
         const parameters = this.parameterController.getAllParameters()
-        this.thermalMaterial.updateFromParameters(parameters)
-        this.heatUp = 0
+        this.thermalMaterial?.updateFromParameters(parameters)
+        this.source?.updateFromParameters?.(parameters)
+        this.presetTransition = null
+        this.setPalette(this.effectConfig.palette)
+        this.setActivePreset(null)
+        this.interactionManager?.getPointers().forEach(pointer => { pointer.heatUp = 0 })
       }
     })
   }
 
+  private setupInteractionModePanel(): void {
+    const container = this.parameterController.getExtensionContainer()
+    if (!container) return
+
+    this.interactionModePanel = new InteractionModePanel({
+      container,
+      mode: this.interactionMode,
+      onChange: (mode) => this.setInteractionMode(mode)
+    })
+  }
+
+  private setupPresetPanel(): void {
+    const container = this.parameterController.getExtensionContainer()
+    if (!container) return
+
+    this.presetPanel = new PresetPanel({
+      container,
+      onApply: (name) => this.applyPreset(name),
+      onSave: (name) => {
+        try {
+          this.savePreset(name)
+        } catch (error) {
+          console.warn('Could not save preset:', error)
+        }
+      },
+      onDelete: (name) => this.deletePreset(name)
+    })
+    this.refreshPresetPanel()
+  }
+
+  private refreshPresetPanel(): void {
+    if (!this.presetPanel) return
+
+    const presets = this.presetManager.getPresets()
+    const builtIns = presets.filter(p => this.presetManager.isBuiltIn(p.name)).map(p => p.name)
+    this.presetPanel.setPresets(presets, builtIns, this.activePreset)
+  }
+
+  private setActivePreset(name: string | null): void {
+    this.activePreset = name
+    this.refreshPresetPanel()
+    this.scheduleUrlUpdate()
+  }
+
+  private setupUrlState(): void {
+    const { urlState } = this.effectConfig
+    if (!urlState.enabled) return
+
+    this.urlStateSync = new UrlStateSync({
+      mode: urlState.mode,
+      prefix: urlState.prefix,
+      onExternalChange: (state) => this.applyShareableState(state)
+    })
+
+    const state = this.urlStateSync.read()
+    if (state) this.applyShareableState(state)
+  }
+
+  private scheduleUrlUpdate(): void {
+    this.urlStateSync?.write(this.getShareableState())
+  }
+
+  /**
+   * Apply a decoded URL state: preset first, then palette and parameter overrides
+   */
+  applyShareableState(state: ShareableState): void {
+    if (state.preset && this.presetManager.getPreset(state.preset)) {
+      this.applyPreset(state.preset, 0)
+    }
+    if (state.palette) {
+      this.setPalette(state.palette)
+    }
+    // Out-of-range values are clamped to PARAMETER_RANGES by the controller
+    this.parameterController.setParameters(state.parameters)
+  }
+
+  /**
+   * Describe the current look; the palette is omitted when it matches the active preset
+   */
+  getShareableState(): ShareableState {
+    const state: ShareableState = {
+      parameters: { ...this.parameterController.getAllParameters() }
+    }
+
+    const preset = this.activePreset ? this.presetManager.getPreset(this.activePreset) : undefined
+    if (preset) {
+      state.preset = preset.name
+    }
+    if (!preset || JSON.stringify(preset.palette) !== JSON.stringify(this.palette)) {
+      state.palette = clonePalette(this.palette)
+    }
+
+    return state
+  }
+
   /**
-   * Handle video play/pause toggle
+   * Link that restores the current look (for external access)
    */
-  private handleToggleVideo(): void {
-    if (!this.video) return
+  getShareUrl(): string {
+    const { mode, prefix } = this.effectConfig.urlState
+    return buildShareUrl(window.location.href, this.getShareableState(), mode, prefix)
+  }
 
-    if (this.video.paused) {
-      this.video.play().catch(() => {})
+  private setupPaletteEditor(): void {
+    const container = this.parameterController.getExtensionContainer()
+    if (!container) return
+
+    this.paletteEditor = new PaletteEditor({
+      container,
+      stops: this.palette,
+      onChange: (stops) => {
+        this.palette = stops
+        this.thermalMaterial?.setPalette(stops)
+        this.scheduleUrlUpdate()
+      }
+    })
+  }
+
+  /**
+   * Handle play/pause toggle
+   */
+  private handleTogglePlayback(): void {
+    if (!this.source) return
+
+    if (this.source.state === 'playing') {
+      this.source.pause()
     } else {
-      this.video.pause()
+      this.source.play()
     }
 
     this.updatePlayButtonState()
   }
 
-  private updatePlayButtonState(): void {
-    if (!this.playButton || !this.video) return
-    this.playButton.textContent = this.video.paused ? 'Play' : 'Pause'
+  /**
+   * Pause source playback, remembering whether to restart it on resume()
+   */
+  pause(): void {
+    if (!this.source || this.source.state !== 'playing') return
+
+    this.resumeSourceOnResume = true
+    this.source.pause()
+    this.updatePlayButtonState()
   }
 
   /**
-   * Handle window resize
+   * Restart source playback if it was running when pause() was called
    */
-  onResize(width: number, height: number): void {
-    const aspectRatio = width / height
-    let cameraWidth: number, cameraHeight: number
+  resume(): void {
+    if (!this.source || !this.resumeSourceOnResume) return
 
-    if (aspectRatio >= 1) {
-      cameraHeight = 1
-      cameraWidth = aspectRatio
-    } else {
-      cameraWidth = 1
-      cameraHeight = 1 / aspectRatio
+    this.resumeSourceOnResume = false
+    this.source.play()
+    this.updatePlayButtonState()
+  }
+
+  /**
+   * Cool every pointer and erase the trail, as if the effect had just started
+   */
+  resetHeat(): void {
+    this.interactionManager?.getPointers().forEach(pointer => { pointer.heatUp = 0 })
+    this.drawRenderer?.clear(this.rendererWrapper.renderer)
+  }
+
+  /**
+   * Rebuild GPU resources after the WebGL context was restored. Parameters, palette,
+   * layout and pointers carry over; the heat trail starts over empty.
+   */
+  restoreContext(): void {
+    // Clearing binds both trail targets, which three.js recreates lazily on the new
+    // context; the trail starts over empty
+    this.resetHeat()
+    if (this.maskTexture) this.maskTexture.needsUpdate = true
+    this.source?.restoreContext?.()
+
+    if (this.thermalMaterial) {
+      this.remove(this.heatMesh)
+      this.heatMesh.geometry.dispose()
+      this.thermalMaterial.dispose()
+      this.createThermalEffect()
+      this.updateMeshTransform()
     }
+  }
+
+  private updatePlayButtonState(): void {
+    if (!this.playButton || !this.source) return
+    this.playButton.textContent = this.source.state === 'playing' ? 'Pause' : 'Play'
+  }
 
-    this.camera.left = -cameraWidth / 2
-    this.camera.right = cameraWidth / 2
-    this.camera.top = cameraHeight / 2
-    this.camera.bottom = -cameraHeight / 2
+  /**
+   * Handle window resize
+   */
+  onResize(width: number, height: number): void {
+    // One world unit per CSS pixel; the mesh is sized by the layout
+    this.viewSize = { width: Math.max(width, 1), height: Math.max(height, 1) }
+    this.camera.left = -this.viewSize.width / 2
+    this.camera.right = this.viewSize.width / 2
+    this.camera.top = this.viewSize.height / 2
+    this.camera.bottom = -this.viewSize.height / 2
     this.camera.updateProjectionMatrix()
+    this.updateMeshTransform()
+    this.scrollTimeline.invalidate()
   }
 
   /**
    * Main animation loop
    */
   update(deltaTime: number): void {
-    if (!this.textureReady) return
+    // Sources without anything to load are ready before the mask and interactions are
+    if (!this.textureReady || this.initStage !== 'done') return
 
+    this.updateScrollTimeline()
     this.updateAnimationValues(deltaTime)
-    this.updateVideoLoop()
+    this.updatePresetTransition(deltaTime)
+    this.updateReplay(deltaTime)
+    this.updateAttractMode(deltaTime)
     this.updateHeatInteraction(deltaTime)
     this.updateThermalMaterial()
     this.updateMeshTransform()
-    this.updateDrawRenderer()
+    this.recorder.advance(deltaTime)
+    this.elapsedTime += deltaTime
   }
 
   private updateAnimationValues(deltaTime: number): void {
+    const { animation } = this.effectConfig
+
     // Smooth mouse position interpolation
     this.animationValues.mouse.position.lerp(
       this.animationValues.mouse.target, 
-      lerpSpeed(ANIMATION.MOUSE_INTERPOLATION_SPEED, deltaTime)
+      lerpSpeed(animation.mouseInterpolationSpeed, deltaTime)
     )
 
     // Update movement and power interpolation
     this.animationValues.move.value = lerp(
       this.animationValues.move.value, 
       this.animationValues.move.target, 
-      lerpSpeed(ANIMATION.MOVEMENT_INTERPOLATION_SPEED, deltaTime)
+      lerpSpeed(animation.movementInterpolationSpeed, deltaTime)
     )
 
     this.animationValues.scrollAnimation.power.value = clamp(
       lerp(
         this.animationValues.scrollAnimation.power.value,
         this.animationValues.scrollAnimation.power.target,
-        lerpSpeed(ANIMATION.POWER_INTERPOLATION_SPEED, deltaTime)
+        lerpSpeed(animation.powerInterpolationSpeed, deltaTime)
       ),
-      ANIMATION.POWER_MIN,
-      ANIMATION.POWER_MAX
+      animation.powerMin,
+      animation.powerMax
     )
 
     // Update scroll-based opacity and scale
     this.animationValues.scrollAnimation.opacity.value = lerp(
       this.animationValues.scrollAnimation.opacity.value,
       this.animationValues.scrollAnimation.opacity.target * this.animationValues.move.value,
-      lerpSpeed(ANIMATION.SCROLL_INTERPOLATION_SPEED, deltaTime)
+      lerpSpeed(animation.scrollInterpolationSpeed, deltaTime)
     )
 
     this.animationValues.scrollAnimation.scale.value = lerp(
       this.animationValues.scrollAnimation.scale.value,
       this.animationValues.scrollAnimation.scale.target,
-      lerpSpeed(ANIMATION.SCROLL_INTERPOLATION_SPEED, deltaTime)
+      lerpSpeed(animation.scrollInterpolationSpeed, deltaTime)
     )
 
     // Fade in effect intensity on startup
@@ -311,57 +632,148 @@ export class AppScene extends THREE.Scene implements Disposable {
       this.animationValues.amount.value = lerp(
         this.animationValues.amount.value,
         this.animationValues.amount.target,
-        ANIMATION.FADE_IN_SPEED * deltaTime * ANIMATION.TARGET_FPS
+        lerpSpeed(animation.fadeInSpeed, deltaTime)
       )
     }
 
     // Video blend interpolation
-    if (this.videoReady) {
+    if (this.textureReady) {
       this.animationValues.blendVideo.value = lerp(
         this.animationValues.blendVideo.value,
         this.animationValues.blendVideo.target,
-        lerpSpeed(ANIMATION.VIDEO_BLEND_SPEED, deltaTime)
+        lerpSpeed(animation.videoBlendSpeed, deltaTime)
       )
     }
   }
 
-  private updateVideoLoop(): void {
-    if (!this.videoReady) return
+  private updateScrollTimeline(): void {
+    const values = this.scrollTimeline.update()
+    if (!values) {
+      // Scrolling stopped; show where the tracks left the parameters
+      if (this.scrollControlsStale) {
+        this.scrollControlsStale = false
+        this.parameterController.syncControls()
+      }
+      return
+    }
 
-    // Loop video between specific time points for seamless playback
-    if (this.video.currentTime >= VIDEO_CONFIG.LOOP_END_TIME) {
-      this.video.currentTime = VIDEO_CONFIG.LOOP_START_TIME
+    // Animation values are eased towards their targets; parameters are set directly
+    const parameters: Partial<EffectParameters> = {}
+    const entries = Object.entries(values) as Array<[ScrollTarget, number]>
+    entries.forEach(([target, value]) => {
+      if (isScrollAnimationTarget(target)) {
+        this.animationValues.scrollAnimation[target].target = value
+      } else {
+        parameters[target] = value
+      }
+    })
+    if (Object.keys(parameters).length > 0) {
+      this.parameterController.setParameters(parameters, { transient: true })
+      this.scrollControlsStale = true
     }
   }
 
-  private updateHeatInteraction(deltaTime: number): void {
-    if (!this.videoReady) return
+  private updatePresetTransition(deltaTime: number): void {
+    if (!this.presetTransition) return
 
-    const interactionState = this.interactionManager.getInteractionState()
-    const mouseState = this.interactionManager.getMouseState()
-    const parameters = this.parameterController.getAllParameters()
+    const { from, to, duration } = this.presetTransition
+    const progress = this.animationValues.preset
+
+    // Linear progress toward the target, eased when applied
+    progress.value = duration > 0
+      ? Math.min(progress.target, progress.value + deltaTime / duration)
+      : progress.target
+    const t = smoothstep(0, 1, progress.value)
+
+    const mixed = { ...from }
+    const names = Object.keys(to.parameters) as Array<keyof EffectParameters>
+    names.forEach(name => {
+      mixed[name] = lerp(from[name], to.parameters[name], t)
+    })
+    this.parameterController.setParameters(mixed, { transient: true })
+    this.thermalMaterial?.setPaletteTransitionProgress(t)
+
+    if (progress.value >= progress.target) {
+      this.presetTransition = null
+      this.parameterController.syncControls()
+      this.scheduleUrlUpdate()
+    }
+  }
 
-    // Update draw renderer position
-    this.drawRenderer.updatePosition(mouseState.position, true)
+  private updateReplay(deltaTime: number): void {
+    if (this.player && !this.player.update(deltaTime)) {
+      this.stopReplay()
+    }
+  }
 
-    // Accumulate heat when interacting
-    if (interactionState.hold) {
-      this.heatUp += parameters.heatSensitivity * deltaTime * ANIMATION.TARGET_FPS
-      this.heatUp = Math.min(this.heatUp, ANIMATION.HEAT_MAX_VALUE)
+  private updateAttractMode(deltaTime: number): void {
+    // A replay owns the pointers; attract mode would make it non-deterministic
+    if (this.player) {
+      this.attractMode.notifyInput()
+      return
     }
 
-    // Update draw renderer with current heat level
-    this.drawRenderer.updateDraw(this.heatUp)
+    // A real pointer resting on the hit area counts as input even without events
+    if (this.interactionManager.hasRealInput()) {
+      this.attractMode.notifyInput()
+    }
 
-    // Cool down heat over time
-    this.heatUp *= parameters.heatDecay
-    if (this.heatUp < INTERACTION.HEAT_CLEANUP_THRESHOLD) {
-      this.heatUp = 0
+    const wasActive = this.attractMode.isActive()
+    const position = this.attractMode.update(deltaTime)
+    if (position) {
+      this.interactionManager.moveVirtualPointer(
+        ATTRACT.POINTER_ID,
+        position.x,
+        position.y,
+        true,
+        this.elapsedTime * 1000
+      )
+    } else if (wasActive) {
+      // Hand back control: the virtual brush stops and cools down like a released pointer
+      this.interactionManager.releaseVirtualPointer(ATTRACT.POINTER_ID)
     }
+  }
 
-    // Update interaction manager mouse position
-    this.interactionManager.updateMousePosition(
-      lerpSpeed(ANIMATION.MOUSE_INTERPOLATION_SPEED, deltaTime)
+  private updateHeatInteraction(deltaTime: number): void {
+    if (!this.textureReady) return
+
+    const { animation, interaction } = this.effectConfig
+    const parameters = this.parameterController.getAllParameters()
+    const heatRate = parameters.heatSensitivity * parameters.reactivity * deltaTime * ANIMATION.TARGET_FPS
+    const cooling = decayFactor(parameters.heatDecay, deltaTime)
+    const brushes: DrawBrush[] = []
+
+    // Every pointer heats its own brush, shaped by pressure, tilt and speed
+    this.interactionManager.getPointers().forEach(pointer => {
+      const dynamics = getBrushDynamics(pointer, this.effectConfig.brushDynamics)
+
+      // Accumulate heat when interacting; reactivity speeds up the response
+      if (pointer.hold) {
+        pointer.heatUp = Math.min(pointer.heatUp + heatRate * dynamics.heat, animation.heatMaxValue)
+      }
+
+      brushes.push({
+        id: pointer.pointerId,
+        position: pointer.position,
+        heat: pointer.heatUp,
+        radius: dynamics.radius
+      })
+
+      // Cool down heat over time (heatDecay is the per-frame factor at 60fps)
+      pointer.heatUp *= cooling
+      if (pointer.heatUp < interaction.heatCleanupThreshold) {
+        pointer.heatUp = 0
+      }
+    })
+
+    // Update draw renderer with current brushes
+    this.drawRenderer.updateBrushes(brushes)
+    this.interactionManager.prunePointers()
+
+    // Update interaction manager pointer positions
+    this.interactionManager.updatePointerPositions(
+      lerpSpeed(animation.mouseInterpolationSpeed, deltaTime),
+      decayFactor(this.effectConfig.brushDynamics.speedDecay, deltaTime)
     )
   }
 
@@ -375,27 +787,24 @@ export class AppScene extends THREE.Scene implements Disposable {
       amount: this.animationValues.amount.value,
       power: parameters.contrastPower,
       blendVideo: parameters.videoBlendAmount,
-      randomValue: Math.random()
+      randomValue: this.random()
     })
   }
 
   private updateMeshTransform(): void {
     if (!this.heatMesh) return
 
+    const rect = computeLayout(this.viewSize.width, this.viewSize.height, this.layout)
     const scale = this.animationValues.scrollAnimation.scale.value
-    this.heatMesh.scale.set(scale, scale, scale)
-  }
-
-  private updateDrawRenderer(): void {
-    // Reset interaction state for next frame
-    this.drawRenderer.updateDirection({ x: 0, y: 0 })
+    this.heatMesh.scale.set(rect.width * scale, rect.height * scale, 1)
+    this.heatMesh.position.set(rect.x, rect.y, 0)
   }
 
   /**
    * Get current parameters (for external access)
    */
   getParameters(): Readonly<EffectParameters> {
-    return this.parameterController?.getAllParameters() ?? {} as EffectParameters
+    return this.parameterController?.getAllParameters() ?? { ...this.effectConfig.defaultParameters }
   }
 
   /**
@@ -405,6 +814,397 @@ export class AppScene extends THREE.Scene implements Disposable {
     this.parameterController?.setParameter(name, value)
   }
 
+  /**
+   * Set multiple parameter values (for external access)
+   */
+  setParameters(parameters: Partial<EffectParameters>): void {
+    this.parameterController?.setParameters(parameters)
+  }
+
+  /**
+   * Replace the thermal palette (for external access)
+   */
+  setPalette(stops: readonly PaletteStop[]): void {
+    const issues = getPaletteIssues(stops)
+    if (issues.length > 0) {
+      throw new Error(`Invalid palette: ${issues.join('; ')}`)
+    }
+
+    this.thermalMaterial?.setPalette(stops)
+    this.palette = clonePalette(stops)
+    this.paletteEditor?.setStops(stops)
+    this.scheduleUrlUpdate()
+  }
+
+  /**
+   * Get a copy of the current palette (for external access)
+   */
+  getPalette(): PaletteStop[] {
+    return clonePalette(this.palette)
+  }
+
+  /**
+   * Blend to a named (or ad-hoc) preset over `duration` seconds (for external access)
+   */
+  applyPreset(
+    nameOrPreset: string | Preset,
+    duration = this.effectConfig.presets.transitionDuration
+  ): void {
+    const preset = typeof nameOrPreset === 'string'
+      ? this.presetManager.getPreset(nameOrPreset)
+      : nameOrPreset
+    if (!preset) {
+      throw new Error(`Unknown preset: ${String(nameOrPreset)}`)
+    }
+
+    const issues = getPaletteIssues(preset.palette)
+    if (issues.length > 0) {
+      throw new Error(`Invalid palette: ${issues.join('; ')}`)
+    }
+
+    this.palette = clonePalette(preset.palette)
+    this.paletteEditor?.setStops(preset.palette)
+
+    if (this.thermalMaterial) {
+      this.thermalMaterial.transitionPalette(preset.palette)
+    }
+
+    this.presetTransition = {
+      from: { ...this.parameterController.getAllParameters() },
+      to: preset,
+      duration
+    }
+    this.animationValues.preset.value = 0
+    this.animationValues.preset.target = 1
+
+    // Without a running scene, jump straight to the preset
+    if (duration <= 0 || !this.textureReady) {
+      this.updatePresetTransition(Math.max(duration, 0))
+    }
+
+    this.setActivePreset(typeof nameOrPreset === 'string' ? preset.name : null)
+  }
+
+  /**
+   * Save the current parameters and palette as a user preset (for external access)
+   */
+  savePreset(name: string): Preset {
+    const preset = this.presetManager.savePreset({
+      name,
+      parameters: { ...this.parameterController.getAllParameters() },
+      palette: clonePalette(this.palette)
+    })
+    this.setActivePreset(preset.name)
+    return preset
+  }
+
+  /**
+   * Delete a user preset (for external access)
+   */
+  deletePreset(name: string): boolean {
+    const deleted = this.presetManager.deletePreset(name)
+    if (deleted && this.activePreset === name) {
+      this.setActivePreset(null)
+    } else {
+      this.refreshPresetPanel()
+    }
+    return deleted
+  }
+
+  /**
+   * List built-in and saved presets (for external access)
+   */
+  getPresets(): Preset[] {
+    return this.presetManager.getPresets()
+  }
+
+  /**
+   * Name of the last applied or saved preset, if any (for external access)
+   */
+  getActivePreset(): string | null {
+    return this.activePreset
+  }
+
+  /**
+   * Replace the mask at runtime. Options not given keep their current values.
+   * When calls overlap, the last one wins.
+   */
+  setMask(source: MaskSource, options: Partial<MaskOptions> = {}): Promise<void> {
+    const request = ++this.maskRequest
+    const maskOptions: MaskOptions = { ...this.maskOptions, ...options }
+
+    const loading = createMaskTexture(source, maskOptions, url => this.loader.loadImage(url)).then(texture => {
+      if (this.disposed || request !== this.maskRequest) {
+        texture.dispose()
+        return
+      }
+
+      const previous = this.maskTexture
+      this.maskTexture = texture
+      this.maskOptions = maskOptions
+      this.thermalMaterial?.updateTextures({ maskTexture: texture })
+      this.thermalMaterial?.setMaskChannel(maskOptions.channel)
+      previous?.dispose()
+      if (this.initStage === 'failed') this.completeInit()
+    })
+
+    this.maskLoading = loading
+    return loading.finally(() => {
+      if (this.maskLoading === loading) this.maskLoading = null
+    })
+  }
+
+  /**
+   * Switch the base temperature field to another source. The current source keeps
+   * rendering until the new one is ready; when calls overlap, the last one wins.
+   */
+  setSource(source: ThermalSourceSpec | ThermalSource): Promise<void> {
+    const request = ++this.sourceRequest
+    const { width, height } = this.rendererWrapper.rect
+    const next = 'load' in source
+      ? source
+      : createThermalSource(source, { width, height, baseField: this.effectConfig.baseField, loader: this.loader })
+
+    this.pendingSource?.dispose()
+    this.pendingSource = next
+
+    // Report states of the active source, and of the pending one while it loads
+    next.onStateChange((state, error) => {
+      if (next === this.source || next === this.pendingSource) {
+        this.config.onSourceStateChange?.(state, error)
+      }
+      if (next === this.source) this.updatePlayButtonState()
+    })
+
+    return next.load().then(
+      () => {
+        if (this.disposed || request !== this.sourceRequest) {
+          next.dispose()
+          return
+        }
+        this.pendingSource = null
+        this.handleSourceReady(next)
+      },
+      (error: unknown) => {
+        if (next === this.pendingSource) this.pendingSource = null
+        next.dispose()
+        if (!this.disposed && request === this.sourceRequest) {
+          // A failed switch keeps the previous source on screen
+          this.config.onSourceAvailabilityChange?.(
+            this.source !== null,
+            error instanceof Error ? error : new Error(String(error))
+          )
+        }
+        throw error
+      }
+    )
+  }
+
+  /**
+   * State of the source being loaded, or else of the active source (for external access)
+   */
+  getSourceState(): ThermalSourceState {
+    return (this.pendingSource ?? this.source)?.state ?? 'idle'
+  }
+
+  /**
+   * Progress of the assets loading now, or of the last round (for external access)
+   */
+  getLoadingState(): LoadingState {
+    return this.loader.getState()
+  }
+
+  /**
+   * Pointers currently tracked, including released ones still cooling down (for external access)
+   */
+  getActivePointers(): ActivePointer[] {
+    return this.interactionManager?.getActivePointers() ?? []
+  }
+
+  /**
+   * Replace scroll timeline settings; omitted options keep their current values
+   * (for external access)
+   */
+  setScrollTimeline(timeline: Partial<ScrollTimelineConfig>): void {
+    const next: ScrollTimelineConfig = { ...this.scrollTimeline.getConfig(), ...timeline }
+    const issues = getScrollTimelineIssues(next)
+    if (issues.length > 0) {
+      throw new Error(`Invalid scroll timeline: ${issues.join('; ')}`)
+    }
+
+    this.scrollTimeline.setConfig(next)
+  }
+
+  /**
+   * Current scroll progress (0-1) of the timeline (for external access)
+   */
+  getScrollProgress(): number {
+    return this.scrollTimeline.getProgress()
+  }
+
+  /**
+   * Change how the effect is placed in the canvas; omitted options keep their current
+   * values (for external access)
+   */
+  setLayout(layout: Partial<LayoutOptions>): void {
+    const next = cloneLayout({ ...this.layout, ...layout })
+    const issues = getLayoutIssues(next)
+    if (issues.length > 0) {
+      throw new Error(`Invalid layout: ${issues.join('; ')}`)
+    }
+
+    this.layout = next
+    this.thermalMaterial?.setFade(next.fadeCenter, next.fadeRadius)
+    this.updateMeshTransform()
+  }
+
+  getLayout(): LayoutOptions {
+    return cloneLayout(this.layout)
+  }
+
+  /**
+   * Apply a quality level: canvas pixel ratio, trail target size and shader tier
+   */
+  setQuality(quality: QualityState): void {
+    this.quality = { ...quality }
+    this.rendererWrapper.setPixelRatio(quality.pixelRatio)
+    this.drawRenderer?.setQuality(quality.drawTextureSize, quality.tier !== 'low')
+    this.thermalMaterial?.setQualityTier(quality.tier)
+    this.source?.setQualityTier?.(quality.tier)
+  }
+
+  /**
+   * Change how pointers interact with the effect (for external access)
+   */
+  setInteractionMode(mode: InteractionMode): void {
+    this.interactionMode = mode
+    this.interactionManager?.setMode(mode)
+    this.interactionModePanel?.setMode(mode)
+  }
+
+  getInteractionMode(): InteractionMode {
+    return this.interactionMode
+  }
+
+  /**
+   * Change attract mode settings; omitted options keep their current values (for external access)
+   */
+  setAttract(options: Partial<ThermalEffectConfig['attract']>): void {
+    this.attractMode.setConfig(options)
+    if (!this.attractMode.isActive()) {
+      this.interactionManager?.releaseVirtualPointer(ATTRACT.POINTER_ID)
+    }
+  }
+
+  /**
+   * Whether the virtual attract pointer is currently running (for external access)
+   */
+  isAttracting(): boolean {
+    return this.attractMode.isActive()
+  }
+
+  /**
+   * Start capturing pointer input; pointers already down are recorded as the first events
+   * (for external access)
+   */
+  startRecording(): void {
+    this.recorder.start()
+    this.interactionManager?.getPointers().forEach(pointer => {
+      this.recorder.recordMove(pointer, { x: 0, y: 0 })
+      if (pointer.hold) this.recorder.recordHold(pointer)
+    })
+  }
+
+  /**
+   * Stop capturing and return the recording (for external access)
+   */
+  stopRecording(): InteractionRecording {
+    return this.recorder.stop()
+  }
+
+  /**
+   * Replay a recording in place of live input. Resolves when it ends or stopReplay()
+   * is called (for external access)
+   */
+  replay(recording: InteractionRecording, options: ReplayOptions = {}): Promise<void> {
+    if (!this.interactionManager) {
+      return Promise.reject(new Error('Cannot replay before the effect has finished loading'))
+    }
+
+    let player: InteractionPlayer
+    try {
+      player = new InteractionPlayer(recording, this.interactionManager, options.loop ?? false)
+    } catch (error) {
+      return Promise.reject(error)
+    }
+
+    this.stopReplay()
+    this.interactionManager.setLiveInput(false)
+    this.player = player
+
+    return new Promise(resolve => {
+      this.finishReplay = resolve
+    })
+  }
+
+  /**
+   * End the current replay and hand control back to live input (for external access)
+   */
+  stopReplay(): void {
+    if (!this.player) return
+
+    this.player.releasePointers()
+    this.player = null
+    this.interactionManager.setLiveInput(this.liveInput)
+
+    const finish = this.finishReplay
+    this.finishReplay = null
+    finish?.()
+  }
+
+  /**
+   * Listen to real pointers or ignore them (e.g. during an export); a running
+   * replay keeps live input off until it ends
+   */
+  setLiveInput(enabled: boolean): void {
+    this.liveInput = enabled
+    if (!this.player) this.interactionManager?.setLiveInput(enabled)
+  }
+
+  /**
+   * Drive video playback from simulation steps instead of wall time
+   */
+  setManualClock(manual: boolean): void {
+    this.manualClock = manual
+    this.source?.setManualClock?.(manual)
+  }
+
+  /**
+   * Hand the base field to an offline render: manual clock, and playing on every step
+   * whatever the lifecycle state, so exported frames never show a frozen video
+   */
+  beginOfflineRender(): void {
+    this.setManualClock(true)
+    this.source?.play()
+  }
+
+  /**
+   * Leave offline rendering and return to the configured clock. The source stays paused;
+   * the lifecycle resumes it through resume() only if nothing else holds the effect.
+   */
+  endOfflineRender(): void {
+    this.source?.pause()
+    this.setManualClock(this.effectConfig.clock.manual)
+    this.updatePlayButtonState()
+  }
+
+  /**
+   * Resolves once the base field texture matches the simulated time
+   */
+  whenSourceFrameReady(): Promise<void> {
+    return this.source?.whenFrameReady?.() ?? Promise.resolve()
+  }
+
   /**
    * Reset parameters to defaults (for external access)
    */
@@ -416,11 +1216,24 @@ export class AppScene extends THREE.Scene implements Disposable {
    * Dispose of all resources
    */
   dispose(): void {
+    this.disposed = true
+    this.stopReplay()
+
     // Dispose of components
     this.drawRenderer?.dispose()
+    this.source?.dispose()
+    this.pendingSource?.dispose()
     this.interactionManager?.dispose()
     this.parameterController?.dispose()
+    this.paletteEditor?.dispose()
+    this.presetPanel?.dispose()
+    this.interactionModePanel?.dispose()
+    this.scrollTimeline.dispose()
+    this.loader.dispose()
+    this.urlStateSync?.dispose()
     this.thermalMaterial?.dispose()
+    this.cleanupFunctions.forEach(cleanup => cleanup())
+    this.cleanupFunctions = []
 
     // Dispose of 3D objects
     if (this.heatMesh) {
@@ -430,13 +1243,5 @@ export class AppScene extends THREE.Scene implements Disposable {
 
     // Dispose of textures
     this.maskTexture?.dispose()
-    this.videoTexture?.dispose()
-
-    // Clean up video
-    if (this.video) {
-      this.video.pause()
-      this.video.src = ''
-      this.video.load()
-    }
   }
 }
\ No newline at end of file
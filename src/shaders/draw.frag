@@ -3,6 +3,7 @@
  * 
  * Creates a mouse interaction heat map by tracking cursor position and movement.
  * Uses ping-pong rendering between two render targets for temporal effects.
+ * Up to MAX_BRUSHES pointers (set by DrawRenderer) each deposit their own trail.
  * 
  * Outputs:
  * - R/G channels: Movement direction vectors for distortion effects
@@ -11,11 +12,13 @@
 
 precision highp float;
 
-uniform float uDraw;
+uniform float uDraw[MAX_BRUSHES];
+uniform float uRadiusScale[MAX_BRUSHES];
+uniform vec2 uPosition[MAX_BRUSHES];
+uniform vec4 uDirection[MAX_BRUSHES];
+uniform int uBrushCount;
 uniform vec3 uRadius;
 uniform vec3 uResolution;
-uniform vec2 uPosition;
-uniform vec4 uDirection;
 uniform float uSizeDamping;
 uniform float uFadeDamping;
 uniform sampler2D uTexture;
@@ -24,23 +27,33 @@ varying vec2 vUv;
 
 void main() {
     float aspect = uResolution.x / uResolution.y;
-    vec2 pos = uPosition;
-    pos.y /= aspect;
     vec2 uv = vUv;
     uv.y /= aspect;
-    
-    float dist = distance(pos, uv) / (uRadius.z / uResolution.x);
-    dist = smoothstep(uRadius.x, uRadius.y, dist);
-    
-    vec3 dir = uDirection.xyz * uDirection.w;
-    vec2 offset = vec2((-dir.x) * (1.0 - dist), (dir.y) * (1.0 - dist));
+
+    // Sum the displacement and heat of every active brush
+    vec2 offset = vec2(0.0);
+    float heat = 0.0;
+
+    for (int i = 0; i < MAX_BRUSHES; i++) {
+        if (i >= uBrushCount) break;
+
+        vec2 pos = uPosition[i];
+        pos.y /= aspect;
+
+        float dist = distance(pos, uv) / (uRadius.z * uRadiusScale[i] / uResolution.x);
+        dist = smoothstep(uRadius.x, uRadius.y, dist);
+
+        vec3 dir = uDirection[i].xyz * uDirection[i].w;
+        offset += vec2(-dir.x, dir.y) * (1.0 - dist);
+        heat += uDraw[i] * (1.0 - dist);
+    }
     
     vec4 color = texture(uTexture, vUv + (offset * 0.01));
     color *= uFadeDamping;
     color.r += offset.x;
     color.g += offset.y;
     color.rg = clamp(color.rg, -1.0, 1.0);
-    color.b += uDraw * (1.0 - dist);
+    color.b += heat;
     
     gl_FragColor = vec4(color.rgb, 1.0);
 }
\ No newline at end of file
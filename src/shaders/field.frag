@@ -0,0 +1,86 @@
+/**
+ * Procedural Field Fragment Shader
+ *
+ * Animated noise used as the base temperature map instead of the video.
+ * Only the red channel is read by the thermal shader; it is written to all
+ * three so the texture can be previewed directly.
+ *
+ * Modes:
+ * - fBm: layered value noise drifting through time
+ * - Curl: the same fBm sampled through a divergence-free warp, giving
+ *   swirling, fluid-like motion
+ */
+
+precision highp float;
+
+#define MAX_OCTAVES 8
+
+uniform float uTime;
+uniform float uScale;
+uniform float uOctaves;
+uniform float uCurl;
+
+varying vec2 vUv;
+
+float hash(vec3 p) {
+    p = fract(p * 0.3183099 + 0.1);
+    p *= 17.0;
+    return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
+
+// Smooth 3D value noise in [0, 1]
+float noise(vec3 x) {
+    vec3 i = floor(x);
+    vec3 f = fract(x);
+    f = f * f * (3.0 - 2.0 * f);
+
+    return mix(
+        mix(mix(hash(i + vec3(0, 0, 0)), hash(i + vec3(1, 0, 0)), f.x),
+            mix(hash(i + vec3(0, 1, 0)), hash(i + vec3(1, 1, 0)), f.x), f.y),
+        mix(mix(hash(i + vec3(0, 0, 1)), hash(i + vec3(1, 0, 1)), f.x),
+            mix(hash(i + vec3(0, 1, 1)), hash(i + vec3(1, 1, 1)), f.x), f.y),
+        f.z
+    );
+}
+
+// Fractional Brownian motion; uOctaves may be fractional to fade the last octave in
+float fbm(vec3 p) {
+    float sum = 0.0;
+    float amplitude = 0.5;
+    float total = 0.0;
+
+    for (int i = 0; i < MAX_OCTAVES; i++) {
+        float weight = clamp(uOctaves - float(i), 0.0, 1.0);
+        if (weight <= 0.0) break;
+
+        sum += noise(p) * amplitude * weight;
+        total += amplitude * weight;
+        p = p * 2.03 + vec3(17.0, 31.0, 0.0);
+        amplitude *= 0.5;
+    }
+
+    return sum / max(total, 1e-4);
+}
+
+// Curl of a scalar noise potential (divergence free)
+vec2 curl(vec3 p) {
+    const float e = 0.05;
+    float dx = noise(p + vec3(e, 0.0, 0.0)) - noise(p - vec3(e, 0.0, 0.0));
+    float dy = noise(p + vec3(0.0, e, 0.0)) - noise(p - vec3(0.0, e, 0.0));
+    return vec2(dy, -dx) / (2.0 * e);
+}
+
+void main() {
+    vec3 p = vec3(vUv * uScale, uTime * 0.15);
+
+    if (uCurl > 0.5) {
+        p.xy += curl(p * 0.5) * 0.35;
+    }
+
+    float field = fbm(p);
+
+    // Stretch the roughly gaussian fBm distribution towards the full 0-1 range
+    field = smoothstep(0.2, 0.8, field);
+
+    gl_FragColor = vec4(vec3(field), 1.0);
+}
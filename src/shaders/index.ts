@@ -8,6 +8,7 @@ import thermalVertexShader from './thermal.vert?raw'
 import thermalFragmentShader from './thermal.frag?raw'
 import drawVertexShader from './draw.vert?raw'
 import drawFragmentShader from './draw.frag?raw'
+import fieldFragmentShader from './field.frag?raw'
 
 export const shaders = {
   thermal: {
@@ -17,6 +18,11 @@ export const shaders = {
   draw: {
     vertex: drawVertexShader,
     fragment: drawFragmentShader
+  },
+  field: {
+    // Same full-screen pass-through as the draw pass
+    vertex: drawVertexShader,
+    fragment: fieldFragmentShader
   }
 } as const
 
@@ -15,6 +15,8 @@ precision highp usampler2D;
 uniform sampler2D drawMap;      // Mouse interaction heat map
 uniform sampler2D textureMap;   // Background video texture
 uniform sampler2D maskMap;      // Apple logo mask
+uniform vec4 maskChannel;       // Channel weights for reading mask coverage
+uniform sampler2D paletteMap;   // Baked thermal gradient (N x 1)
 
 // Animation parameters
 uniform float blendVideo;
@@ -23,11 +25,11 @@ uniform float opacity;
 uniform vec2 scale;
 uniform vec2 offset;
 
-// Color palette (7 colors for thermal gradient)
-uniform vec3 color1, color2, color3, color4, color5, color6, color7;
-uniform vec4 blend, fade, maxBlend;
 uniform float power, rnd;
 uniform vec4 heat, stretch;
+uniform float transparent;      // 1 = premultiplied alpha output, 0 = opaque
+uniform vec2 fadeCenter;        // Center of the circular fade (mesh UV)
+uniform vec2 fadeRadius;        // Radius where the fade starts, and where it reaches zero
 
 // HUD controllable parameters
 uniform float effectIntensity;
@@ -35,6 +37,7 @@ uniform float colorSaturation;
 uniform float gradientShift;
 // Behavioral parameters
 uniform float interactionSize;
+uniform float reactivity;
 
 varying vec2 vUv;
 varying vec4 vClipPosition;
@@ -81,29 +84,10 @@ vec3 gradient(float t) {
     // Apply gradient shift and color cycling
     t = clamp(t + gradientShift, 0.0, 1.0);
 
-    float p1 = blend.x, p2 = blend.y, p3 = blend.z, p4 = blend.w;
-    float p5 = maxBlend.x, p6 = maxBlend.y;
-    float f1 = fade.x, f2 = fade.y, f3 = fade.z, f4 = fade.w;
-    float f5 = maxBlend.z, f6 = maxBlend.w;
-
-    // Smooth transitions between color stops
-    float b1 = smoothstep(p1 - f1 * 0.5, p1 + f1 * 0.5, t);
-    float b2 = smoothstep(p2 - f2 * 0.5, p2 + f2 * 0.5, t);
-    float b3 = smoothstep(p3 - f3 * 0.5, p3 + f3 * 0.5, t);
-    float b4 = smoothstep(p4 - f4 * 0.5, p4 + f4 * 0.5, t);
-    float b5 = smoothstep(p5 - f5 * 0.5, p5 + f5 * 0.5, t);
-    float b6 = smoothstep(p6 - f6 * 0.5, p6 + f6 * 0.5, t);
-
-    // Blend colors based on temperature
-    vec3 col = color1;
-    col = mix(col, color2, b1);
-    col = mix(col, color3, b2);
-    col = mix(col, color4, b3);
-    col = mix(col, color5, b4);
-    col = mix(col, color6, b5);
-    col = mix(col, color7, b6);
-
-    return col;
+    // Look up the baked palette, sampling texel centers so t = 0 and 1 hit the end stops
+    float size = float(textureSize(paletteMap, 0).x);
+    float u = (t * (size - 1.0) + 0.5) / size;
+    return texture(paletteMap, vec2(u, 0.5)).rgb;
 }
 
 void main() {
@@ -123,9 +107,9 @@ void main() {
     float a = clamp(amount, 0.0, 1.0);
     float v = o * a;
 
-    // Sample the Apple logo mask (green channel)
+    // Sample the Apple logo mask (selected channel)
     vec4 tex = texture(maskMap, uv + offset);
-    float mask = tex.g;
+    float mask = dot(tex, maskChannel);
 
     // Sample mouse interaction data (heat map from DrawRenderer)
     vec3 draw = texture(drawMap, duv).rgb;
@@ -135,9 +119,13 @@ void main() {
     // Apply interaction size scaling
     heatDraw *= interactionSize;
 
-    // Sample background video with slight distortion from heat
-    vec2 off = draw.rg * 0.01;
+    // Sample background video with slight distortion from heat (scaled by reactivity)
+#if HEAT_DISTORTION
+    vec2 off = draw.rg * 0.01 * reactivity;
     vec3 video = textureLod(textureMap, uv + off, 0.0).rgb;
+#else
+    vec3 video = textureLod(textureMap, uv, 0.0).rgb;
+#endif
 
     // Enhance heat effect based on video content
     float h = mix(pow(1.0 - video.r, 1.5), 1.0, 0.2) * 1.25;
@@ -153,14 +141,23 @@ void main() {
     map = mix(0.0, map, v);
 
     // Apply circular fade from center
-    float fade = distance(vUv, vec2(0.5, 0.52));
-    fade = smoothstep(0.5, 0.62, 1.0 - fade);
+    float fade = distance(vUv, fadeCenter);
+    fade = 1.0 - smoothstep(fadeRadius.x, fadeRadius.y, fade);
 
     // Generate final color using gradient function
     vec3 final = gradient(map + heatDraw);
+#if SATURATION_PASS
     final = saturation(final, colorSaturation);  // Apply controllable saturation
+#endif
     final *= fade;                    // Apply circular fade
     final = mix(vec3(0.0), final, a * effectIntensity); // Apply overall amount with intensity multiplier
 
-    gl_FragColor = vec4(final, 1.0);
+    if (transparent > 0.5) {
+        // Coverage comes from the mask shape, the circular fade and the fade-in, so the
+        // page shows through instead of black; color is premultiplied by it
+        float alpha = clamp(mask * fade * a * effectIntensity, 0.0, 1.0);
+        gl_FragColor = vec4(final * mask, alpha);
+    } else {
+        gl_FragColor = vec4(final, 1.0);
+    }
 }
\ No newline at end of file
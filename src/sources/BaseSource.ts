@@ -0,0 +1,89 @@
+/**
+ * BaseSource - Shared state tracking for thermal base field sources
+ */
+
+import * as THREE from 'three'
+import type { SourceStateHandler, ThermalSource, ThermalSourceSpec, ThermalSourceState } from '../types'
+
+export abstract class BaseSource implements ThermalSource {
+  abstract readonly type: ThermalSourceSpec['type']
+
+  protected disposed = false
+  // Aborted on dispose, so pending asset loads stop retrying
+  protected loadAbort = new AbortController()
+  private currentState: ThermalSourceState = 'idle'
+  private currentError: Error | null = null
+  private loading: Promise<void> | null = null
+  private handlers = new Set<SourceStateHandler>()
+
+  get state(): ThermalSourceState {
+    return this.currentState
+  }
+
+  get error(): Error | null {
+    return this.currentError
+  }
+
+  /**
+   * Load once; later calls return the same promise
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.setState('loading')
+      this.loading = this.startLoad().then(
+        () => {
+          if (this.currentState === 'loading') this.setState('ready')
+        },
+        (error: unknown) => {
+          this.fail(error)
+          throw this.currentError
+        }
+      )
+    }
+    return this.loading
+  }
+
+  /**
+   * Subscribe to state changes; returns an unsubscribe function
+   */
+  onStateChange(handler: SourceStateHandler): () => void {
+    this.handlers.add(handler)
+    return () => this.handlers.delete(handler)
+  }
+
+  protected setState(state: ThermalSourceState, error: Error | null = null): void {
+    if (this.disposed || (state === this.currentState && error === this.currentError)) return
+
+    this.currentState = state
+    this.currentError = error
+    this.handlers.forEach(handler => handler(state, error))
+  }
+
+  protected fail(error: unknown): void {
+    this.setState('error', error instanceof Error ? error : new Error(String(error)))
+  }
+
+  protected abstract startLoad(): Promise<void>
+  abstract getTexture(): THREE.Texture | null
+  abstract play(): void
+  abstract pause(): void
+
+  update(_renderer: THREE.WebGLRenderer, _deltaTime: number): void {}
+
+  /**
+   * Upload the texture again; its image is still held on the CPU side
+   */
+  restoreContext(): void {
+    const texture = this.getTexture()
+    if (texture) texture.needsUpdate = true
+  }
+
+  /**
+   * Dispose of all resources; subclasses release their media first
+   */
+  dispose(): void {
+    this.disposed = true
+    this.loadAbort.abort()
+    this.handlers.clear()
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * CanvasSource - Base field from a canvas the host draws into
+ */
+
+import * as THREE from 'three'
+import type { ThermalSourceSpec } from '../types'
+import { BaseSource } from './BaseSource'
+
+export class CanvasSource extends BaseSource {
+  readonly type = 'canvas'
+
+  private texture: THREE.CanvasTexture
+
+  constructor(spec: Extract<ThermalSourceSpec, { type: 'canvas' }>) {
+    super()
+    this.texture = new THREE.CanvasTexture(spec.canvas)
+  }
+
+  protected async startLoad(): Promise<void> {}
+
+  getTexture(): THREE.Texture | null {
+    return this.texture
+  }
+
+  play(): void {
+    this.setState('playing')
+  }
+
+  pause(): void {
+    this.setState('paused')
+  }
+
+  update(): void {
+    // Re-upload the canvas every step while playing; pausing freezes the last frame
+    if (this.state === 'playing') {
+      this.texture.needsUpdate = true
+    }
+  }
+
+  dispose(): void {
+    super.dispose()
+    this.texture.dispose()
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * ImageSequenceSource - Base field from a list of frames played at a fixed rate
+ */
+
+import * as THREE from 'three'
+import type { ThermalSourceSpec } from '../types'
+import type { AssetLoader } from '../components/AssetLoader'
+import { BaseSource } from './BaseSource'
+
+export class ImageSequenceSource extends BaseSource {
+  readonly type = 'sequence'
+
+  private spec: Extract<ThermalSourceSpec, { type: 'sequence' }>
+  private loader: AssetLoader
+  private frames: HTMLImageElement[] = []
+  private texture: THREE.Texture | null = null
+  private time = 0
+  private frameIndex = 0
+
+  constructor(spec: Extract<ThermalSourceSpec, { type: 'sequence' }>, loader: AssetLoader) {
+    super()
+    this.spec = spec
+    this.loader = loader
+  }
+
+  protected async startLoad(): Promise<void> {
+    if (this.spec.urls.length === 0) {
+      throw new Error('Image sequence has no frames')
+    }
+    if (!(this.spec.fps > 0)) {
+      throw new Error('Image sequence fps must be positive')
+    }
+
+    // Each frame counts toward loading progress on its own
+    this.frames = await Promise.all(this.spec.urls.map(url => this.loader.loadImage(url, this.loadAbort.signal)))
+    if (this.disposed) return
+
+    this.texture = new THREE.Texture(this.frames[0])
+    this.texture.wrapS = this.texture.wrapT = THREE.RepeatWrapping
+    this.texture.needsUpdate = true
+  }
+
+  getTexture(): THREE.Texture | null {
+    return this.texture
+  }
+
+  play(): void {
+    if (!this.texture) return
+
+    // Restart a finished one-shot sequence
+    if (this.spec.loop === false && this.frameIndex === this.frames.length - 1) {
+      this.time = 0
+    }
+    this.setState('playing')
+  }
+
+  pause(): void {
+    if (this.texture) this.setState('paused')
+  }
+
+  update(_renderer: THREE.WebGLRenderer, deltaTime: number): void {
+    if (!this.texture || this.state !== 'playing') return
+
+    this.time += deltaTime
+    let index = Math.floor(this.time * this.spec.fps)
+
+    if (this.spec.loop === false) {
+      if (index >= this.frames.length - 1) {
+        index = this.frames.length - 1
+        this.setState('paused')
+      }
+    } else {
+      index %= this.frames.length
+    }
+
+    if (index !== this.frameIndex) {
+      this.frameIndex = index
+      this.texture.image = this.frames[index]
+      this.texture.needsUpdate = true
+    }
+  }
+
+  dispose(): void {
+    super.dispose()
+    this.texture?.dispose()
+    this.texture = null
+    this.frames = []
+  }
+}
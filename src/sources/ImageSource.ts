@@ -0,0 +1,50 @@
+/**
+ * ImageSource - Base field from a still image
+ */
+
+import * as THREE from 'three'
+import type { AssetUrl, ThermalSourceSpec } from '../types'
+import type { AssetLoader } from '../components/AssetLoader'
+import { BaseSource } from './BaseSource'
+
+export class ImageSource extends BaseSource {
+  readonly type = 'image'
+
+  private url: AssetUrl
+  private loader: AssetLoader
+  private texture: THREE.Texture | null = null
+
+  constructor(spec: Extract<ThermalSourceSpec, { type: 'image' }>, loader: AssetLoader) {
+    super()
+    this.url = spec.url
+    this.loader = loader
+  }
+
+  protected async startLoad(): Promise<void> {
+    const texture = await this.loader.loadTexture(this.url, this.loadAbort.signal)
+    if (this.disposed) {
+      texture.dispose()
+      return
+    }
+    this.texture = texture
+  }
+
+  getTexture(): THREE.Texture | null {
+    return this.texture
+  }
+
+  // A still image has nothing to advance, but it reports play state like the others
+  play(): void {
+    if (this.texture) this.setState('playing')
+  }
+
+  pause(): void {
+    if (this.texture) this.setState('paused')
+  }
+
+  dispose(): void {
+    super.dispose()
+    this.texture?.dispose()
+    this.texture = null
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * MediaElementSource - Shared playback and texture handling for <video>-backed sources
+ */
+
+import * as THREE from 'three'
+import type { AssetLoader } from '../components/AssetLoader'
+import { createVideoTexture } from '../utils/assets'
+import { addEventListenerWithCleanup } from '../utils/dom'
+import { BaseSource } from './BaseSource'
+
+export abstract class MediaElementSource extends BaseSource {
+  protected loader: AssetLoader
+  protected video: HTMLVideoElement | null = null
+  private texture: THREE.VideoTexture | null = null
+  private cleanupFunctions: Array<() => void> = []
+  // With a manual clock the element stays paused and is seeked along update() deltas
+  private manualClock = false
+  private manualTime = 0
+
+  constructor(loader: AssetLoader) {
+    super()
+    this.loader = loader
+  }
+
+  /**
+   * Create the (not yet loaded) video element
+   */
+  protected abstract createVideo(): Promise<HTMLVideoElement>
+
+  /**
+   * Release whatever the element is playing
+   */
+  protected abstract releaseVideo(video: HTMLVideoElement): void
+
+  /**
+   * Wait for the first frame; sources that set a URL override this to retry it
+   */
+  protected loadVideo(video: HTMLVideoElement): Promise<void> {
+    return this.loader.waitForVideo(video, this.loadAbort.signal)
+  }
+
+  protected async startLoad(): Promise<void> {
+    const video = await this.createVideo()
+    // The source may have been dropped while waiting, e.g. for camera permission
+    if (this.disposed) {
+      this.releaseVideo(video)
+      return
+    }
+    this.video = video
+
+    await this.loadVideo(video)
+    if (this.disposed) return
+
+    this.texture = createVideoTexture(video)
+    this.cleanupFunctions.push(
+      addEventListenerWithCleanup(video, 'playing', () => {
+        if (!this.manualClock) this.setState('playing')
+      }),
+      addEventListenerWithCleanup(video, 'pause', () => {
+        if (!this.manualClock) this.setState('paused')
+      }),
+      addEventListenerWithCleanup(video, 'error', () => this.fail(new Error('Video playback failed')))
+    )
+  }
+
+  getTexture(): THREE.Texture | null {
+    return this.texture
+  }
+
+  play(): void {
+    if (!this.texture || !this.video) return
+    if (this.manualClock) {
+      this.setState('playing')
+      return
+    }
+    // Autoplay may be refused; the source then stays paused until the next play()
+    this.video.play().catch(() => this.setState('paused'))
+  }
+
+  pause(): void {
+    if (this.manualClock) {
+      if (this.texture) this.setState('paused')
+      return
+    }
+    this.video?.pause()
+  }
+
+  /**
+   * Switch clocks. The element is left paused either way; whoever owns playback (the
+   * scene, through the lifecycle) calls play() again if it should run.
+   */
+  setManualClock(manual: boolean): void {
+    if (manual === this.manualClock) return
+
+    this.manualClock = manual
+    if (!this.video) return
+
+    if (manual) {
+      this.manualTime = this.video.currentTime
+      this.video.pause()
+    } else if (this.state === 'playing') {
+      this.setState('paused')
+    }
+  }
+
+  update(_renderer: THREE.WebGLRenderer, deltaTime: number): void {
+    if (!this.manualClock || !this.video || this.state !== 'playing') return
+
+    this.manualTime += deltaTime
+    const { duration } = this.video
+    if (Number.isFinite(duration) && duration > 0) {
+      this.manualTime = this.video.loop ? this.manualTime % duration : Math.min(this.manualTime, duration)
+    }
+    this.video.currentTime = this.manualTime
+  }
+
+  /**
+   * Wait for a manual-clock seek to land, then upload the new frame. The texture's own
+   * video frame callback is not guaranteed to have fired by then.
+   */
+  whenFrameReady(): Promise<void> {
+    const video = this.video
+    if (!video || !video.seeking) return Promise.resolve()
+
+    return new Promise(resolve => {
+      const done = () => {
+        video.removeEventListener('seeked', done)
+        video.removeEventListener('emptied', done)
+        video.removeEventListener('error', done)
+        if (this.texture) this.texture.needsUpdate = true
+        resolve()
+      }
+      video.addEventListener('seeked', done)
+      // The source may be released or fail while seeking
+      video.addEventListener('emptied', done)
+      video.addEventListener('error', done)
+    })
+  }
+
+  /**
+   * Jump to `time` seconds, keeping the manual clock in sync
+   */
+  protected seek(time: number): void {
+    if (!this.video) return
+    this.manualTime = time
+    this.video.currentTime = time
+  }
+
+  dispose(): void {
+    super.dispose()
+    this.cleanupFunctions.forEach(cleanup => cleanup())
+    this.cleanupFunctions = []
+    this.texture?.dispose()
+    this.texture = null
+
+    if (this.video) {
+      this.video.pause()
+      this.releaseVideo(this.video)
+      this.video = null
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * ProceduralSource - Base field from animated noise rendered on the GPU
+ */
+
+import * as THREE from 'three'
+import type { EffectParameters, QualityTier, ThermalEffectConfig, ThermalSourceSpec } from '../types'
+import { FieldRenderer } from '../renderer/FieldRenderer'
+import { QUALITY_CONFIG } from '../config/constants'
+import { BaseSource } from './BaseSource'
+
+export class ProceduralSource extends BaseSource {
+  readonly type = 'procedural'
+
+  private fieldRenderer: FieldRenderer
+
+  constructor(
+    spec: Extract<ThermalSourceSpec, { type: 'procedural' }>,
+    config: ThermalEffectConfig['baseField']
+  ) {
+    super()
+    this.fieldRenderer = new FieldRenderer({ ...config, noise: spec.noise ?? config.noise })
+    // Stay still until play(), like the other sources
+    this.fieldRenderer.pause()
+  }
+
+  protected async startLoad(): Promise<void> {}
+
+  getTexture(): THREE.Texture | null {
+    return this.fieldRenderer.getTexture()
+  }
+
+  play(): void {
+    this.fieldRenderer.play()
+    this.setState('playing')
+  }
+
+  pause(): void {
+    this.fieldRenderer.pause()
+    this.setState('paused')
+  }
+
+  updateFromParameters(parameters: Readonly<EffectParameters>): void {
+    this.fieldRenderer.updateFromParameters(parameters)
+  }
+
+  setQualityTier(tier: QualityTier): void {
+    this.fieldRenderer.setMaxOctaves(QUALITY_CONFIG.NOISE_OCTAVES[tier])
+  }
+
+  restoreContext(): void {
+    this.fieldRenderer.invalidate()
+  }
+
+  update(renderer: THREE.WebGLRenderer, deltaTime: number): void {
+    this.fieldRenderer.render(renderer, deltaTime)
+  }
+
+  dispose(): void {
+    super.dispose()
+    this.fieldRenderer.dispose()
+  }
+}
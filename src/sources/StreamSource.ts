@@ -0,0 +1,51 @@
+/**
+ * StreamSource - Base field from a MediaStream, e.g. a webcam
+ */
+
+import type { ThermalSourceSpec } from '../types'
+import type { AssetLoader } from '../components/AssetLoader'
+import { MediaElementSource } from './MediaElementSource'
+
+const DEFAULT_CONSTRAINTS: MediaStreamConstraints = {
+  audio: false,
+  video: { facingMode: 'user' }
+}
+
+export class StreamSource extends MediaElementSource {
+  readonly type = 'stream'
+
+  private spec: Extract<ThermalSourceSpec, { type: 'stream' }>
+  // Streams requested here are stopped on dispose; streams passed in belong to the caller
+  private ownedStream: MediaStream | null = null
+
+  constructor(spec: Extract<ThermalSourceSpec, { type: 'stream' }>, loader: AssetLoader) {
+    super(loader)
+    this.spec = spec
+  }
+
+  protected async createVideo(): Promise<HTMLVideoElement> {
+    let stream = this.spec.stream
+    if (!stream) {
+      if (!navigator.mediaDevices?.getUserMedia) {
+        throw new Error('Camera access is not supported in this browser')
+      }
+      stream = await navigator.mediaDevices.getUserMedia(this.spec.constraints ?? DEFAULT_CONSTRAINTS)
+      this.ownedStream = stream
+    }
+
+    const video = document.createElement('video')
+    video.muted = true
+    video.playsInline = true
+    video.srcObject = stream
+    return video
+  }
+
+  // A live stream can't be seeked, so it keeps running in real time
+  setManualClock(): void {}
+
+  protected releaseVideo(video: HTMLVideoElement): void {
+    video.srcObject = null
+    this.ownedStream?.getTracks().forEach(track => track.stop())
+    this.ownedStream = null
+  }
+}
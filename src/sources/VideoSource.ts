@@ -0,0 +1,59 @@
+/**
+ * VideoSource - Base field from a video file, optionally looping between two time points
+ */
+
+import * as THREE from 'three'
+import type { ThermalSourceSpec } from '../types'
+import type { AssetLoader } from '../components/AssetLoader'
+import { VIDEO_CONFIG } from '../config/constants'
+import { createVideoElement } from '../utils/assets'
+import { MediaElementSource } from './MediaElementSource'
+
+interface VideoSourceOptions {
+  width: number
+  height: number
+}
+
+export class VideoSource extends MediaElementSource {
+  readonly type = 'video'
+
+  private spec: Extract<ThermalSourceSpec, { type: 'video' }>
+  private options: VideoSourceOptions
+
+  constructor(spec: Extract<ThermalSourceSpec, { type: 'video' }>, options: VideoSourceOptions, loader: AssetLoader) {
+    super(loader)
+    this.spec = spec
+    this.options = options
+  }
+
+  protected async createVideo(): Promise<HTMLVideoElement> {
+    return createVideoElement(this.options.width, this.options.height, {
+      muted: VIDEO_CONFIG.MUTED,
+      autoplay: VIDEO_CONFIG.AUTOPLAY,
+      controls: VIDEO_CONFIG.CONTROLS,
+      loop: true
+    })
+  }
+
+  // Tries every alternate URL, retrying on errors and timeouts
+  protected loadVideo(video: HTMLVideoElement): Promise<void> {
+    return this.loader.loadVideo(video, this.spec.url, this.loadAbort.signal)
+  }
+
+  protected releaseVideo(video: HTMLVideoElement): void {
+    video.src = ''
+    video.load()
+  }
+
+  update(renderer: THREE.WebGLRenderer, deltaTime: number): void {
+    super.update(renderer, deltaTime)
+
+    const { loop } = this.spec
+    if (!loop || !this.video || this.state === 'loading') return
+
+    // Loop video between specific time points for seamless playback
+    if (this.video.currentTime >= loop.endTime) {
+      this.seek(loop.startTime)
+    }
+  }
+}
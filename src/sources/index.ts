@@ -0,0 +1,46 @@
+/**
+ * Thermal base field sources
+ */
+
+import type { ThermalEffectConfig, ThermalSource, ThermalSourceSpec } from '../types'
+import { AssetLoader } from '../components/AssetLoader'
+import { THERMAL_EFFECT_CONFIG } from '../config/constants'
+import { VideoSource } from './VideoSource'
+import { StreamSource } from './StreamSource'
+import { CanvasSource } from './CanvasSource'
+import { ImageSource } from './ImageSource'
+import { ImageSequenceSource } from './ImageSequenceSource'
+import { ProceduralSource } from './ProceduralSource'
+
+interface SourceContext {
+  // Size hint for video elements
+  width: number
+  height: number
+  baseField: ThermalEffectConfig['baseField']
+  // Loads media with retries and reports progress; defaults to an untracked loader
+  loader?: AssetLoader
+}
+
+/**
+ * Create the source described by `spec` (not yet loaded)
+ */
+export function createThermalSource(spec: ThermalSourceSpec, context: SourceContext): ThermalSource {
+  const loader = context.loader ?? new AssetLoader({ config: THERMAL_EFFECT_CONFIG.loading })
+  switch (spec.type) {
+    case 'video':
+      return new VideoSource(spec, context, loader)
+    case 'stream':
+      return new StreamSource(spec, loader)
+    case 'canvas':
+      return new CanvasSource(spec)
+    case 'image':
+      return new ImageSource(spec, loader)
+    case 'sequence':
+      return new ImageSequenceSource(spec, loader)
+    case 'procedural':
+      return new ProceduralSource(spec, context.baseField)
+  }
+}
+
+export { BaseSource } from './BaseSource'
+export { VideoSource, StreamSource, CanvasSource, ImageSource, ImageSequenceSource, ProceduralSource }
@@ -3,14 +3,16 @@
  */
 
 import * as THREE from 'three'
+import type { AssetLoadError } from '../utils/assets'
 
 // Shader uniform types
 export interface ThermalShaderUniforms extends Record<string, { value: any }> {
   // Texture uniforms
   blendVideo: { value: number }
   drawMap: { value: THREE.Texture }
-  textureMap: { value: THREE.VideoTexture }
+  textureMap: { value: THREE.Texture | null }
   maskMap: { value: THREE.Texture }
+  maskChannel: { value: THREE.Vector4 }
   
   // Transform uniforms
   scale: { value: [number, number] }
@@ -18,19 +20,8 @@ export interface ThermalShaderUniforms extends Record<string, { value: any }> {
   opacity: { value: number }
   amount: { value: number }
   
-  // Color uniforms (7-color thermal gradient)
-  color1: { value: [number, number, number] }
-  color2: { value: [number, number, number] }
-  color3: { value: [number, number, number] }
-  color4: { value: [number, number, number] }
-  color5: { value: [number, number, number] }
-  color6: { value: [number, number, number] }
-  color7: { value: [number, number, number] }
-  
-  // Gradient blend parameters
-  blend: { value: [number, number, number, number] }
-  fade: { value: [number, number, number, number] }
-  maxBlend: { value: [number, number, number, number] }
+  // Thermal gradient baked from the palette stops
+  paletteMap: { value: THREE.DataTexture }
   
   // Effect parameters
   power: { value: number }
@@ -38,22 +29,149 @@ export interface ThermalShaderUniforms extends Record<string, { value: any }> {
   heat: { value: [number, number, number, number] }
   stretch: { value: [number, number, number, number] }
   
+  // Circular fade around the effect, in mesh UV: center and inner/outer radius
+  fadeCenter: { value: [number, number] }
+  fadeRadius: { value: [number, number] }
+
+  // 1 writes premultiplied alpha from mask and fade, 0 writes opaque black around the effect
+  transparent: { value: number }
+
   // HUD controllable parameters
   effectIntensity: { value: number }
   colorSaturation: { value: number }
   gradientShift: { value: number }
   interactionSize: { value: number }
+  reactivity: { value: number }
 }
 
 export interface DrawRendererUniforms extends Record<string, { value: any }> {
   uRadius: { value: THREE.Vector3 }
-  uPosition: { value: THREE.Vector2 }
-  uDirection: { value: THREE.Vector4 }
+  // One entry per brush slot; only the first uBrushCount are drawn
+  uPosition: { value: THREE.Vector2[] }
+  uDirection: { value: THREE.Vector4[] }
+  uDraw: { value: number[] }
+  uRadiusScale: { value: number[] }
+  uBrushCount: { value: number }
   uResolution: { value: THREE.Vector3 }
   uTexture: { value: THREE.Texture | null }
   uSizeDamping: { value: number }
   uFadeDamping: { value: number }
-  uDraw: { value: number }
+}
+
+export interface FieldRendererUniforms extends Record<string, { value: any }> {
+  uTime: { value: number }
+  uScale: { value: number }
+  uOctaves: { value: number }
+  uCurl: { value: number }
+}
+
+// Palette types
+export interface PaletteStop {
+  // Hex color, with or without leading '#'
+  color: string
+  // Temperature (0-1) at which this color takes over
+  position: number
+  // Width of the blend into this color
+  fade: number
+}
+
+// Named bundle of parameters and palette
+export interface Preset {
+  name: string
+  parameters: EffectParameters
+  palette: PaletteStop[]
+}
+
+// Look encoded into a shareable URL
+export interface ShareableState {
+  parameters: Partial<EffectParameters>
+  preset?: string
+  palette?: PaletteStop[]
+}
+
+// Asset URLs. A candidate's `type` (a MIME type such as 'video/webm') skips formats the
+// browser cannot play; `density` picks the 1x/2x variant closest to the device pixel ratio.
+export type AssetCandidate = string | { url: string; type?: string; density?: number }
+// One URL, or alternates tried in order of preference until one loads
+export type AssetUrl = string | readonly AssetCandidate[]
+
+// Why an asset attempt failed; 'unsupported' moves on to the next alternate without retrying
+export type AssetErrorCode = 'timeout' | 'network' | 'unsupported' | 'aborted'
+
+// Progress of the mask, base field and sequence frames requested since loading last began
+export type LoadingPhase = 'idle' | 'loading' | 'ready' | 'error'
+
+export interface LoadingState {
+  // 'error' once loading settles with any asset failed after every retry and alternate
+  phase: LoadingPhase
+  loaded: number
+  total: number
+  // Fraction (0-1) of assets settled, failed ones included
+  progress: number
+  errors: AssetLoadError[]
+}
+
+export type LoadingStateHandler = (state: LoadingState) => void
+
+// Mask types
+export type MaskSource =
+  | { type: 'url'; url: AssetUrl }
+  | { type: 'image'; image: CanvasImageSource }
+  | { type: 'svg'; path: string; viewBox?: [number, number, number, number]; fillRule?: CanvasFillRule }
+  | { type: 'text'; text: string; font?: string; fontWeight?: string | number }
+
+// Which texture channel the shader reads as mask coverage
+export type MaskChannel = 'alpha' | 'luminance' | 'red' | 'green' | 'blue'
+
+// How the source is fitted into the square mask area
+export type MaskFit = 'contain' | 'cover' | 'stretch'
+
+export interface MaskOptions {
+  channel: MaskChannel
+  fit: MaskFit
+  // Fraction of the mask area left empty around the content (contain only)
+  padding: number
+  // Edge length of the rasterized mask canvas in pixels
+  resolution: number
+}
+
+// Base temperature field sources
+export type ThermalSourceSpec =
+  | { type: 'video'; url: AssetUrl; loop?: { startTime: number; endTime: number } | null }
+  // Plays `stream`, or requests the camera with `constraints` when no stream is given
+  | { type: 'stream'; stream?: MediaStream; constraints?: MediaStreamConstraints }
+  | { type: 'canvas'; canvas: HTMLCanvasElement }
+  | { type: 'image'; url: AssetUrl }
+  | { type: 'sequence'; urls: AssetUrl[]; fps: number; loop?: boolean }
+  | { type: 'procedural'; noise?: 'fbm' | 'curl' }
+
+export type ThermalSourceState = 'idle' | 'loading' | 'ready' | 'playing' | 'paused' | 'error'
+
+export type SourceStateHandler = (state: ThermalSourceState, error: Error | null) => void
+
+export interface ThermalSource extends Disposable {
+  readonly type: ThermalSourceSpec['type']
+  readonly state: ThermalSourceState
+  readonly error: Error | null
+
+  // Start loading; resolves once a texture is available, rejects on error
+  load(): Promise<void>
+  getTexture(): THREE.Texture | null
+  play(): void
+  pause(): void
+  // Called once per simulation step before the thermal pass renders
+  update(renderer: THREE.WebGLRenderer, deltaTime: number): void
+  updateFromParameters?(parameters: Readonly<EffectParameters>): void
+  // Advance playback only through update() deltas instead of wall time
+  setManualClock?(manual: boolean): void
+  // Resolves once the texture shows the frame for the current time, e.g. after a seek
+  whenFrameReady?(): Promise<void>
+  // Drop costly features (e.g. noise octaves) at lower quality tiers
+  setQualityTier?(tier: QualityTier): void
+  // Re-upload the texture after the WebGL context was lost and restored
+  restoreContext?(): void
+  // Subscribe to state changes; returns an unsubscribe function
+  onStateChange(handler: SourceStateHandler): () => void
 }
 
 // Configuration types
@@ -70,6 +188,11 @@ export interface EffectParameters {
   heatDecay: number
   interactionRadius: number
   reactivity: number
+
+  // Procedural field parameters
+  noiseSpeed: number
+  noiseScale: number
+  noiseOctaves: number
 }
 
 export interface AnimationValues {
@@ -80,6 +203,8 @@ export interface AnimationValues {
     target: THREE.Vector3 
   }
   move: { value: number; target: number }
+  // Progress (0-1) of the active preset transition
+  preset: { value: number; target: number }
   scrollAnimation: {
     opacity: { value: number; target: number }
     scale: { value: number; target: number }
@@ -87,35 +212,232 @@ export interface AnimationValues {
   }
 }
 
+// Scroll timeline types
+export type EasingName = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | 'smoothstep'
+
+// Anything a scroll track can drive: an effect parameter or a scroll animation value
+export type ScrollTarget = keyof EffectParameters | keyof AnimationValues['scrollAnimation']
+
+export interface ScrollKeyframe {
+  // Scroll progress (0-1) at which `value` is reached
+  at: number
+  value: number
+  // Curve from this keyframe to the next (default linear)
+  easing?: EasingName
+}
+
+export interface ScrollTimelineConfig {
+  enabled: boolean
+  // Progress runs from 0 when the container's top enters the bottom of the viewport to 1
+  // when its bottom leaves the top; `range` picks the slice of that mapped onto 0-1
+  range: [number, number]
+  // Keyframes per target, sorted by `at`
+  tracks: Partial<Record<ScrollTarget, ScrollKeyframe[]>>
+}
+
 // Interaction types
 export interface MouseState {
   position: THREE.Vector3
   target: THREE.Vector3
 }
 
+// How pointers heat the effect: hovering the hit area, pressing on it,
+// moving anywhere on the page, or not at all
+export type InteractionMode = 'hover' | 'press' | 'global' | 'off'
+
+// Path the attract-mode pointer follows while nobody interacts
+export type AttractPattern = 'lissajous' | 'randomWalk' | 'path'
+
+// Tracked separately for every pointerId (mouse, pen, each finger)
 export interface InteractionState {
+  pointerId: number
+  pointerType: string
   hold: boolean
   heatUp: number
   lastNX: number
   lastNY: number
+  // Event time (ms) of the last move, for speed
+  lastTime: number
+  // Normalized pen/touch pressure (0.5 for mice), tilt away from vertical (0-1)
+  // and smoothed speed in hit-area sizes per second
+  pressure: number
+  tilt: number
+  speed: number
+  // Smoothed and latest position in NDC
+  position: THREE.Vector3
+  target: THREE.Vector3
+}
+
+// One heat brush for the draw pass
+export interface DrawBrush {
+  id: number
+  // Position in NDC (-1 to 1)
+  position: { x: number; y: number }
+  heat: number
+  // Radius multiplier (1 = configured radius)
+  radius: number
+}
+
+// Maps one pointer input onto brush multipliers
+export interface ResponseCurve {
+  // Input range mapped onto 0-1; values outside are clamped
+  inputMin: number
+  inputMax: number
+  // Shape of the mapped input: 1 is linear, below 1 eases out, above 1 eases in
+  exponent: number
+  // Multipliers reached at the start and the end of the input range
+  radius: [number, number]
+  heat: [number, number]
+  direction: [number, number]
+}
+
+export interface BrushDynamics {
+  radius: number
+  heat: number
+  direction: number
+}
+
+// Snapshot of a tracked pointer for the public API
+export interface ActivePointer {
+  id: number
+  pointerType: string
+  // Position in NDC (-1 to 1)
+  x: number
+  y: number
+  hold: boolean
+  heat: number
+}
+
+// Recorded interaction session (compact JSON). Times are milliseconds of scene time
+// since recording started, positions are NDC.
+//   move: [time, pointerId, x, y, directionX, directionY, pressure, tilt, speed]
+//   hold: [time, pointerId, 0 | 1]
+export type RecordedMoveEvent = [number, number, number, number, number, number, number, number, number]
+export type RecordedHoldEvent = [number, number, 0 | 1]
+
+export interface InteractionRecording {
+  version: 1
+  // Milliseconds from the start of the recording to when it was stopped
+  duration: number
+  // pointerType for every pointerId that appears in `events`
+  pointers: Record<string, string>
+  events: Array<RecordedMoveEvent | RecordedHoldEvent>
+}
+
+export interface ReplayOptions {
+  // Start over once the recording ends instead of resolving
+  loop?: boolean
+}
+
+// Lifecycle: stopped (never started or stop() called), running, or paused for one
+// or more reasons
+export type LifecycleState = 'stopped' | 'running' | 'paused'
+export type PauseReason = 'user' | 'hidden' | 'offscreen' | 'export' | 'contextLost' | 'maskFailed'
+export type LifecycleHandler = (state: LifecycleState, reasons: PauseReason[]) => void
+
+// Adaptive quality. Tiers gate shader features: 'medium' caps the procedural noise
+// octaves and drops the heat distortion of the base field, 'low' also drops the saturation
+// pass and the trail mipmaps.
+export type QualityTier = 'low' | 'medium' | 'high'
+
+export interface QualityState {
+  // Position on the quality ladder; 0 is the lowest, levelCount - 1 the highest
+  level: number
+  levelCount: number
+  pixelRatio: number
+  drawTextureSize: number
+  tier: QualityTier
+  // Average frame rate measured when the level was chosen (0 before any measurement)
+  fps: number
+  // Display refresh rate the frame rate was judged against (0 before any measurement)
+  refreshRate: number
+}
+
+export type QualityHandler = (quality: QualityState) => void
+
+// How the effect is currently drawn: the full WebGL effect, the Canvas2D CPU fallback,
+// or the static poster image
+export type RenderMode = 'webgl' | 'canvas' | 'poster'
+
+export interface RenderStatus {
+  mode: RenderMode
+  // Why the WebGL effect is not shown; null in webgl mode
+  reason: Error | null
+}
+
+export type RenderStatusHandler = (status: RenderStatus) => void
+
+// Offline export settings
+export type ExportFormat = 'png' | 'webm'
+
+export interface ExportOptions {
+  // Output size in pixels, independent of the on-screen canvas
+  width: number
+  height: number
+  fps?: number
+  // Seconds to render; defaults to the recording's length when one is given
+  duration?: number
+  // Zipped PNG sequence, or WebM encoded by WebCodecs (MediaRecorder where it is missing)
+  format?: ExportFormat
+  // Input replayed while rendering; without one, live input is ignored
+  recording?: InteractionRecording
+  // WebM bitrate in bits per second
+  videoBitsPerSecond?: number
+  onProgress?: (frame: number, totalFrames: number) => void
+  signal?: AbortSignal
 }
 
 // Component interfaces
 export interface DrawRendererOptions {
-  radiusRatio?: number
   isMobile?: boolean
 }
 
+export interface AppRendererOptions {
+  clock?: Partial<ClockConfig>
+  // Create the canvas with an alpha channel (fixed for the lifetime of the context)
+  transparent?: boolean
+}
+
+// How the effect is sized inside the canvas: fit the shorter side, cover the longer
+// side, stretch to the canvas, or keep a fixed pixel size
+export type FitMode = 'contain' | 'cover' | 'fill' | 'fixed'
+
+export interface LayoutOptions {
+  fit: FitMode
+  // Side length in CSS pixels for 'fixed'
+  size: number
+  // Where the effect sits in the spare space: [0, 0] top-left, [0.5, 0.5] centered
+  anchor: [number, number]
+  // Extra shift in CSS pixels (x right, y down)
+  offset: [number, number]
+  // Circular fade in effect UV: center, and the radii where it starts and reaches zero
+  fadeCenter: [number, number]
+  fadeRadius: [number, number]
+}
+
+// How the canvas composites over the page behind it
+export type BlendMode = 'normal' | 'additive' | 'screen'
+
 export interface ThermalEffectConfig {
   // Asset URLs
-  maskUrl: string
-  videoUrl: string
+  maskUrl: AssetUrl
+  videoUrl: AssetUrl
   
+  // Mask rasterization defaults
+  mask: MaskOptions
+
+  // Base temperature field: the video, or animated noise rendered on the GPU
+  baseField: {
+    source: 'video' | 'procedural'
+    noise: 'fbm' | 'curl'
+    textureSize: number
+  }
+
   // Default parameters
   defaultParameters: EffectParameters
   
-  // Color palette (hex colors for thermal gradient)
-  paletteHex: string[]
+  // Color palette (stops for the thermal gradient)
+  palette: PaletteStop[]
   
   // Video loop points
   videoLoop: {
@@ -128,7 +450,12 @@ export interface ThermalEffectConfig {
     fadeInSpeed: number
     mouseInterpolationSpeed: number
     scrollInterpolationSpeed: number
+    movementInterpolationSpeed: number
+    powerInterpolationSpeed: number
+    videoBlendSpeed: number
     heatMaxValue: number
+    powerMin: number
+    powerMax: number
   }
   
   // Draw renderer settings
@@ -137,9 +464,170 @@ export interface ThermalEffectConfig {
     radiusRatio: number
     mobileRadius: number
     desktopRadius: number
+    radiusVector: [number, number, number]
+    sizeDamping: number
+    fadeDamping: number
+    directionMultiplier: number
+    // Most pointers drawn at once; extra pointers are ignored
+    maxBrushes: number
+  }
+
+  // Interaction response targets
+  interaction: {
+    mode: InteractionMode
+    holdMoveTarget: number
+    releaseMoveTarget: number
+    holdPowerTarget: number
+    releasePowerTarget: number
+    heatCleanupThreshold: number
+  }
+
+  // How pen pressure, tilt and pointer speed shape each brush
+  brushDynamics: {
+    pressure: ResponseCurve
+    tilt: ResponseCurve
+    speed: ResponseCurve
+    // Per-frame (60fps) factor by which the measured speed settles once a pointer stops
+    speedDecay: number
+  }
+
+  // Attract mode: a virtual pointer that keeps the effect warm on unattended screens
+  attract: {
+    enabled: boolean
+    // Seconds without input before the virtual pointer starts
+    idleDelay: number
+    pattern: AttractPattern
+    // Travel speed in NDC units per second
+    speed: number
+    // Extent of the lissajous and random-walk patterns (fraction of the half-size)
+    amplitude: number
+    // Lissajous frequency ratio (x, y)
+    frequencies: [number, number]
+    // Closed loop of NDC points for the 'path' pattern
+    path: Array<[number, number]>
+  }
+
+  // Placement of the effect inside the canvas
+  layout: LayoutOptions
+
+  // Values keyframed against the container's scroll position
+  scrollTimeline: ScrollTimelineConfig
+
+  // When the effect runs
+  lifecycle: {
+    // Start rendering as soon as the effect is created; otherwise wait for start()
+    autoStart: boolean
+    // Pause while the tab is hidden
+    pauseWhenHidden: boolean
+    // Pause while the container is scrolled out of view
+    pauseWhenOffscreen: boolean
+  }
+
+  // What to show when WebGL or the base field is unavailable
+  fallback: {
+    // Switch to a fallback automatically instead of leaving an empty canvas
+    enabled: boolean
+    // Try the Canvas2D CPU renderer before the poster
+    canvas: boolean
+    // Edge length of the CPU-rendered square in pixels
+    resolution: number
+    // CPU renderer frame rate
+    fps: number
+    // Pre-rendered image shown when nothing else can render; null shows the mask image
+    posterUrl: string | null
+  }
+
+  // Asset loading over unreliable networks
+  loading: {
+    // Seconds one attempt may take before it is abandoned; 0 waits forever
+    timeout: number
+    // Extra attempts per URL before moving on to the next alternate
+    retries: number
+    // Seconds before the first retry, doubled on every further retry up to maxBackoff
+    backoff: number
+    maxBackoff: number
+  }
+
+  // Frame-time driven quality governor
+  quality: {
+    // Step quality down and up with the measured frame rate; otherwise stay at the top level
+    adaptive: boolean
+    // [min, max] canvas pixel ratio; max is also capped at devicePixelRatio
+    pixelRatio: [number, number]
+    // [min, max] trail render target size, halved per step; max is also capped at
+    // drawRenderer.textureSize
+    drawTextureSize: [number, number]
+    // [min, max] shader feature tier
+    tier: [QualityTier, QualityTier]
+    // Frame rates are compared with the display's measured refresh rate, so 50 Hz screens
+    // are judged by their own cadence. Step down when the average over sampleWindow falls
+    // below this fraction of the refresh rate
+    downgradeRatio: number
+    // Step up once the frame rate has stayed at or above this fraction for upgradeDelay seconds
+    upgradeRatio: number
+    // Lowest refresh rate the display is assumed to have, in Hz; a device that never
+    // renders faster is judged against this instead
+    minRefreshRate: number
+    sampleWindow: number
+    upgradeDelay: number
+    // Seconds of frames ignored after a change while the new level settles
+    cooldown: number
+  }
+
+  // Compositing with the page
+  output: {
+    // Transparent canvas with premultiplied alpha instead of a black rectangle
+    transparent: boolean
+    blendMode: BlendMode
+  }
+
+  // Frame timing
+  clock: ClockConfig
+
+  // Seed for per-frame shader noise and random attract patterns; null uses Math.random.
+  // With a seed, a manual clock and the same input, runs produce identical uniforms.
+  seed: number | null
+
+  // Shareable URL state
+  urlState: {
+    // Read the look from the URL on start and keep the URL updated
+    enabled: boolean
+    // Store state in location.hash or location.search
+    mode: 'hash' | 'query'
+    // Key prefix so several effects on one page don't collide
+    prefix: string
+  }
+
+  // Preset library
+  presets: {
+    // Seconds to blend from the current look to a newly applied preset
+    transitionDuration: number
+    // localStorage key for user-saved presets
+    storageKey: string
   }
 }
 
+export interface ClockConfig {
+  // Largest delta (seconds) passed to updates, e.g. after the tab was hidden
+  maxDeltaTime: number
+  // Step length in seconds for fixed-timestep mode; null uses the real frame time
+  fixedTimeStep: number | null
+  // Upper bound on fixed steps simulated per rendered frame
+  maxSubSteps: number
+  // Skip requestAnimationFrame; the host advances the effect with step(). Video
+  // sources are then seeked along the same clock instead of playing in real time.
+  manual: boolean
+}
+
+// Recursive partial used for config overrides; arrays are replaced, not merged
+export type DeepPartial<T> = {
+  [K in keyof T]?: T[K] extends readonly unknown[]
+    ? T[K]
+    : T[K] extends object
+      ? DeepPartial<T[K]>
+      : T[K]
+}
+
 // Event handler types
 export type PointerEventHandler = (event: PointerEvent) => void
 export type ResizeEventHandler = (width: number, height: number) => void
@@ -155,4 +643,102 @@ export interface ParameterControl {
   id: string
   param: keyof EffectParameters
   valueId: string
+  label: string
+  group: 'visual' | 'behavioral' | 'field'
+}
+
+// Public embedding API
+export interface ThermalEffectOptions {
+  // Overrides deep-merged over THERMAL_EFFECT_CONFIG
+  config?: DeepPartial<ThermalEffectConfig>
+
+  // Shorthands for config.maskUrl / config.videoUrl
+  maskUrl?: AssetUrl
+  videoUrl?: AssetUrl
+
+  // Initial mask, replacing config.maskUrl
+  mask?: MaskSource
+
+  // Initial base field source, replacing config.videoUrl / config.baseField.source
+  source?: ThermalSourceSpec
+
+  // Called whenever the active source changes state (loading, playing, error, ...)
+  onSourceStateChange?: SourceStateHandler
+
+  // Called when the effect starts, stops, pauses or resumes (including automatic pauses)
+  onLifecycleChange?: LifecycleHandler
+
+  // Called when the quality governor changes pixel ratio, trail size or shader tier
+  onQualityChange?: QualityHandler
+
+  // Called as assets start loading, settle or fail
+  onLoadingChange?: LoadingStateHandler
+
+  // Called when the effect switches between WebGL, the Canvas2D fallback and the poster
+  onRenderStatusChange?: RenderStatusHandler
+
+  // Called when the GPU drops the WebGL context (the effect pauses until it is restored,
+  // so the host can show a fallback) and once it has been restored and rebuilt
+  onContextLost?: () => void
+  onContextRestored?: () => void
+
+  // Shorthand for config.palette
+  palette?: readonly PaletteStop[]
+
+  // Shorthand for config.defaultParameters
+  parameters?: Partial<EffectParameters>
+
+  // Show the parameter HUD and the play/pause button
+  hud?: boolean
+  controls?: boolean
+}
+
+export interface ThermalEffect extends Disposable {
+  // Root element created inside the host container
+  readonly element: HTMLElement
+
+  // Resolves once assets are loaded and the effect is running
+  readonly ready: Promise<void>
+
+  setParameters(parameters: Partial<EffectParameters>): void
+  getParameters(): Readonly<EffectParameters>
+  setPalette(stops: readonly PaletteStop[]): void
+  getPalette(): PaletteStop[]
+  applyPreset(name: string, duration?: number): void
+  savePreset(name: string): Preset
+  getPresets(): Preset[]
+  getShareUrl(): string
+  setMask(source: MaskSource, options?: Partial<MaskOptions>): Promise<void>
+  setSource(source: ThermalSourceSpec | ThermalSource): Promise<void>
+  getSourceState(): ThermalSourceState
+  getActivePointers(): ActivePointer[]
+  setInteractionMode(mode: InteractionMode): void
+  getInteractionMode(): InteractionMode
+  setAttract(options: Partial<ThermalEffectConfig['attract']>): void
+  isAttracting(): boolean
+  startRecording(): void
+  stopRecording(): InteractionRecording
+  replay(recording: InteractionRecording, options?: ReplayOptions): Promise<void>
+  stopReplay(): void
+  // Advance by exactly `deltaTime` seconds and render one frame (for clock.manual)
+  step(deltaTime: number): void
+  // Render frames offline; resolves with a ZIP of PNGs or a WebM file
+  exportFrames(options: ExportOptions): Promise<Blob>
+  setScrollTimeline(timeline: Partial<ScrollTimelineConfig>): void
+  getScrollProgress(): number
+  setLayout(layout: Partial<LayoutOptions>): void
+  getLayout(): LayoutOptions
+  setBlendMode(mode: BlendMode): void
+  getBlendMode(): BlendMode
+  // start() begins (or restarts after stop()) with a cold heat map; stop() halts it.
+  // pause() and resume() freeze and continue exactly where the effect was.
+  start(): void
+  stop(): void
+  pause(): void
+  resume(): void
+  getLifecycleState(): LifecycleState
+  getQuality(): QualityState
+  isContextLost(): boolean
+  getRenderStatus(): RenderStatus
+  getLoadingState(): LoadingState
 }
\ No newline at end of file
@@ -1,31 +1,206 @@
 /**
  * Asset loading utilities
+ *
+ * Network loads go through loadWithRetry: every attempt has a timeout, failed URLs are
+ * retried with exponential backoff and alternates are tried in order of preference.
  */
 
 import * as THREE from 'three'
+import type { AssetErrorCode, AssetUrl, ThermalEffectConfig } from '../types'
+import { THERMAL_EFFECT_CONFIG } from '../config/constants'
+
+type LoadingConfig = ThermalEffectConfig['loading']
+
+// Starts one attempt at `url` and returns a cleanup function, called once it settles
+type AttemptStart<T> = (
+  url: string,
+  resolve: (value: T) => void,
+  reject: (error: AssetLoadError) => void
+) => () => void
 
 /**
- * Load a texture with proper configuration
+ * Thrown when an asset could not be loaded. After retries and alternates, `url` and
+ * `code` describe the last failure and `attempts` counts every attempt made.
+ */
+export class AssetLoadError extends Error {
+  readonly url: string
+  readonly code: AssetErrorCode
+  readonly attempts: number
+
+  constructor(message: string, url: string, code: AssetErrorCode, attempts = 1) {
+    super(message)
+    this.name = 'AssetLoadError'
+    this.url = url
+    this.code = code
+    this.attempts = attempts
+  }
+}
+
+/**
+ * Order the alternates of `url` by preference. Candidates of a MIME type the browser
+ * cannot play are dropped; the rest prefer the density closest at or above the device
+ * pixel ratio, then sharper ones, then the sharpest of those below it.
  */
-export function loadTexture(url: string): Promise<THREE.Texture> {
-  return new Promise((resolve, reject) => {
-    new THREE.TextureLoader().load(
+export function resolveAssetUrls(url: AssetUrl, kind: 'image' | 'video'): string[] {
+  if (typeof url === 'string') return [url]
+
+  const candidates = url.map(candidate => typeof candidate === 'string' ? { url: candidate } : candidate)
+  const probe = kind === 'video' ? document.createElement('video') : null
+  const playable = candidates.filter(candidate => !candidate.type || !probe || probe.canPlayType(candidate.type) !== '')
+  if (playable.length === 0) {
+    throw new AssetLoadError(
+      `No playable format among ${candidates.map(candidate => candidate.url).join(', ')}`,
+      candidates[0]?.url ?? '',
+      'unsupported',
+      0
+    )
+  }
+
+  // Array.prototype.sort is stable, so equal densities keep their listed order
+  const ratio = window.devicePixelRatio || 1
+  const rank = (density = 1) => density >= ratio ? density - ratio : 1000 + ratio - density
+  return playable
+    .sort((a, b) => rank(a.density) - rank(b.density))
+    .map(candidate => candidate.url)
+}
+
+function delay(seconds: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(done, seconds * 1000)
+    signal?.addEventListener('abort', done, { once: true })
+    function done() {
+      clearTimeout(timer)
+      signal?.removeEventListener('abort', done)
+      resolve()
+    }
+  })
+}
+
+function abortError(url: string): AssetLoadError {
+  return new AssetLoadError(`Loading was aborted: ${url}`, url, 'aborted', 0)
+}
+
+/**
+ * Run one attempt, rejecting with a 'timeout' error after `timeout` seconds (0 waits forever)
+ */
+function runAttempt<T>(url: string, timeout: number, start: AttemptStart<T>, signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(url))
+      return
+    }
+
+    let settled = false
+    let cleanup: (() => void) | null = null
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const onAbort = () => finish(() => reject(abortError(url)))
+    const finish = (callback: () => void) => {
+      if (settled) return
+      settled = true
+      if (timer !== null) clearTimeout(timer)
+      signal?.removeEventListener('abort', onAbort)
+      cleanup?.()
+      callback()
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true })
+    if (timeout > 0) {
+      timer = setTimeout(() => finish(() => {
+        reject(new AssetLoadError(`Timed out after ${timeout}s: ${url}`, url, 'timeout'))
+      }), timeout * 1000)
+    }
+
+    const stop = start(
       url,
-      (texture) => {
-        texture.wrapS = texture.wrapT = THREE.RepeatWrapping
-        resolve(texture)
-      },
-      undefined,
-      (error) => reject(error)
+      value => finish(() => resolve(value)),
+      error => finish(() => reject(error))
     )
+    // The attempt may have settled synchronously, before its cleanup was known
+    if (settled) stop()
+    else cleanup = stop
   })
 }
 
 /**
- * Create and configure a video element
+ * Try every alternate of `url` in order, retrying each with exponential backoff.
+ * Rejects with an AssetLoadError describing the last failure.
+ */
+async function loadWithRetry<T>(
+  url: AssetUrl,
+  kind: 'image' | 'video',
+  start: AttemptStart<T>,
+  loading: LoadingConfig,
+  signal?: AbortSignal
+): Promise<T> {
+  const urls = resolveAssetUrls(url, kind)
+  let attempts = 0
+  let lastError: AssetLoadError | null = null
+
+  for (const candidate of urls) {
+    for (let retry = 0; retry <= loading.retries; retry++) {
+      if (retry > 0) {
+        await delay(Math.min(loading.backoff * 2 ** (retry - 1), loading.maxBackoff), signal)
+      }
+      attempts++
+      try {
+        return await runAttempt(candidate, loading.timeout, start, signal)
+      } catch (error) {
+        lastError = error as AssetLoadError
+        if (lastError.code === 'aborted') throw lastError
+        // Another try of the same URL would fail the same way
+        if (lastError.code === 'unsupported') break
+      }
+    }
+  }
+
+  const last = lastError ?? abortError(urls[0])
+  throw new AssetLoadError(
+    `Failed to load ${urls.join(' or ')} after ${attempts} attempt${attempts === 1 ? '' : 's'}: ${last.message}`,
+    last.url,
+    last.code,
+    attempts
+  )
+}
+
+/**
+ * Load a texture with proper configuration
+ */
+export async function loadTexture(
+  url: AssetUrl,
+  loading: LoadingConfig = THERMAL_EFFECT_CONFIG.loading,
+  signal?: AbortSignal
+): Promise<THREE.Texture> {
+  const texture = new THREE.Texture(await loadImage(url, loading, signal))
+  texture.wrapS = texture.wrapT = THREE.RepeatWrapping
+  texture.needsUpdate = true
+  return texture
+}
+
+/**
+ * Load an image element (CORS-enabled so it can be uploaded to WebGL)
+ */
+export function loadImage(
+  url: AssetUrl,
+  loading: LoadingConfig = THERMAL_EFFECT_CONFIG.loading,
+  signal?: AbortSignal
+): Promise<HTMLImageElement> {
+  return loadWithRetry(url, 'image', (candidate, resolve, reject) => {
+    const image = new Image()
+    image.crossOrigin = 'anonymous'
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new AssetLoadError(`Failed to load image: ${candidate}`, candidate, 'network'))
+    image.src = candidate
+
+    return () => {
+      image.onload = image.onerror = null
+    }
+  }, loading, signal)
+}
+
+/**
+ * Create and configure a video element; its source is attached by loadVideo()
  */
 export function createVideoElement(
-  url: string,
   width: number,
   height: number,
   options: {
@@ -37,7 +212,7 @@ export function createVideoElement(
   } = {}
 ): HTMLVideoElement {
   const video = document.createElement('video')
-  
+
   video.muted = options.muted ?? true
   video.playsInline = options.playsInline ?? true
   video.autoplay = options.autoplay ?? false
@@ -45,8 +220,7 @@ export function createVideoElement(
   video.loop = options.loop ?? true
   video.width = width
   video.height = height
-  video.src = url
-  
+
   return video
 }
 
@@ -58,11 +232,58 @@ export function createVideoTexture(video: HTMLVideoElement): THREE.VideoTexture
 }
 
 /**
- * Set up video ready callback
+ * Point `video` at the best playable alternate of `url` and wait for its first frame,
+ * retrying and moving on to the next alternate on errors and timeouts
+ */
+export function loadVideo(
+  video: HTMLVideoElement,
+  url: AssetUrl,
+  loading: LoadingConfig = THERMAL_EFFECT_CONFIG.loading,
+  signal?: AbortSignal
+): Promise<void> {
+  return loadWithRetry(url, 'video', (candidate, resolve, reject) => {
+    const cleanup = setupVideoReady(video, candidate, resolve, reject)
+    // Setting src restarts the load, also when retrying the same URL
+    video.src = candidate
+    return cleanup
+  }, loading, signal)
+}
+
+/**
+ * Wait for the first frame of a video whose source is already set, e.g. a media stream.
+ * There is nothing to retry, so this only adds the timeout.
+ */
+export function waitForVideoData(
+  video: HTMLVideoElement,
+  timeout: number = THERMAL_EFFECT_CONFIG.loading.timeout,
+  signal?: AbortSignal
+): Promise<void> {
+  const label = video.currentSrc || video.src || 'media stream'
+  if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA) return Promise.resolve()
+  return runAttempt(label, timeout, (_url, resolve, reject) => setupVideoReady(video, label, resolve, reject), signal)
+}
+
+/**
+ * Set up video ready and error callbacks; returns a function removing both
  */
 export function setupVideoReady(
-  video: HTMLVideoElement, 
-  callback: () => void
-): void {
+  video: HTMLVideoElement,
+  label: string,
+  callback: () => void,
+  onError: (error: AssetLoadError) => void
+): () => void {
+  const handleError = () => {
+    // A decode error means this URL is unusable. MEDIA_ERR_SRC_NOT_SUPPORTED is also what
+    // a network failure before metadata reports, so it is retried like one; formats the
+    // browser cannot play are already dropped by resolveAssetUrls()
+    const code = video.error?.code === MediaError.MEDIA_ERR_DECODE ? 'unsupported' : 'network'
+    onError(new AssetLoadError(`Failed to load video: ${label}`, label, code))
+  }
   video.addEventListener('loadeddata', callback, { once: true })
-}
\ No newline at end of file
+  video.addEventListener('error', handleError, { once: true })
+
+  return () => {
+    video.removeEventListener('loadeddata', callback)
+    video.removeEventListener('error', handleError)
+  }
+}
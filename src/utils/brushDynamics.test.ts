@@ -0,0 +1,53 @@
+import * as THREE from 'three'
+import { describe, expect, it } from 'vitest'
+import type { InteractionState, ResponseCurve } from '../types'
+import { THERMAL_EFFECT_CONFIG } from '../config/constants'
+import { evaluateCurve, getBrushDynamics, shapeInput } from './brushDynamics'
+
+const CURVE: ResponseCurve = {
+  inputMin: 1,
+  inputMax: 3,
+  exponent: 2,
+  radius: [1, 3],
+  heat: [2, 0],
+  direction: [1, 1]
+}
+
+function pointer(values: Partial<InteractionState>): InteractionState {
+  return {
+    pointerId: 1,
+    pointerType: 'pen',
+    hold: true,
+    heatUp: 0,
+    lastNX: 0,
+    lastNY: 0,
+    lastTime: 0,
+    pressure: 0.5,
+    tilt: 0,
+    speed: 0,
+    position: new THREE.Vector3(),
+    target: new THREE.Vector3(),
+    ...values
+  }
+}
+
+describe('brushDynamics', () => {
+  it('clamps the input to the curve range before shaping it', () => {
+    expect(shapeInput(CURVE, 0)).toBe(0)
+    expect(shapeInput(CURVE, 2)).toBe(0.25)
+    expect(shapeInput(CURVE, 5)).toBe(1)
+  })
+
+  it('interpolates every multiplier between its two end values', () => {
+    expect(evaluateCurve(CURVE, 2)).toEqual({ radius: 1.5, heat: 1.5, direction: 1 })
+  })
+
+  it('multiplies the factors of pressure, tilt and speed', () => {
+    const config = { ...THERMAL_EFFECT_CONFIG.brushDynamics, pressure: CURVE, tilt: CURVE, speed: CURVE }
+    const dynamics = getBrushDynamics(pointer({ pressure: 3, tilt: 1, speed: 2 }), config)
+
+    expect(dynamics.radius).toBeCloseTo(3 * 1 * 1.5)
+    expect(dynamics.heat).toBeCloseTo(0 * 2 * 1.5)
+    expect(dynamics.direction).toBe(1)
+  })
+})
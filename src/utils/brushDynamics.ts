@@ -0,0 +1,48 @@
+/**
+ * Brush dynamics - turn pen pressure, tilt and pointer speed into brush multipliers
+ */
+
+import type { BrushDynamics, InteractionState, ResponseCurve, ThermalEffectConfig } from '../types'
+import { clamp, lerp } from './math'
+
+/**
+ * Map `input` through the curve's range and exponent (0-1)
+ */
+export function shapeInput(curve: ResponseCurve, input: number): number {
+  const t = clamp((input - curve.inputMin) / (curve.inputMax - curve.inputMin), 0, 1)
+  return Math.pow(t, curve.exponent)
+}
+
+/**
+ * Multipliers for one input, each interpolated between its curve's two end values
+ */
+export function evaluateCurve(curve: ResponseCurve, input: number): BrushDynamics {
+  const t = shapeInput(curve, input)
+  return {
+    radius: lerp(curve.radius[0], curve.radius[1], t),
+    heat: lerp(curve.heat[0], curve.heat[1], t),
+    direction: lerp(curve.direction[0], curve.direction[1], t)
+  }
+}
+
+/**
+ * Combined multipliers for a pointer (the product of all three inputs)
+ */
+export function getBrushDynamics(
+  pointer: Readonly<InteractionState>,
+  config: ThermalEffectConfig['brushDynamics']
+): BrushDynamics {
+  const inputs: Array<[ResponseCurve, number]> = [
+    [config.pressure, pointer.pressure],
+    [config.tilt, pointer.tilt],
+    [config.speed, pointer.speed]
+  ]
+
+  return inputs.reduce<BrushDynamics>((result, [curve, input]) => {
+    const factors = evaluateCurve(curve, input)
+    result.radius *= factors.radius
+    result.heat *= factors.heat
+    result.direction *= factors.direction
+    return result
+  }, { radius: 1, heat: 1, direction: 1 })
+}
@@ -15,9 +15,10 @@ export function isTouchDevice(): boolean {
  * Get element or throw error if not found
  */
 export function getRequiredElement<T extends HTMLElement = HTMLElement>(
-  selector: string
+  selector: string,
+  root: ParentNode = document
 ): T {
-  const element = document.querySelector<T>(selector)
+  const element = root.querySelector<T>(selector)
   if (!element) {
     throw new Error(`Required element not found: ${selector}`)
   }
@@ -28,9 +29,10 @@ export function getRequiredElement<T extends HTMLElement = HTMLElement>(
  * Get element or return null if not found
  */
 export function getOptionalElement<T extends HTMLElement = HTMLElement>(
-  selector: string
+  selector: string,
+  root: ParentNode = document
 ): T | null {
-  return document.querySelector<T>(selector)
+  return root.querySelector<T>(selector)
 }
 
 /**
@@ -53,13 +55,14 @@ export function setupParameterControl(
   sliderId: string,
   valueDisplayId: string,
   onValueChange: (value: number) => void,
-  initialValue?: number
+  initialValue?: number,
+  root: ParentNode = document
 ): {
   setValue: (value: number) => void
   cleanup: () => void
 } {
-  const slider = getRequiredElement<HTMLInputElement>(sliderId)
-  const valueDisplay = getRequiredElement<HTMLSpanElement>(valueDisplayId)
+  const slider = getRequiredElement<HTMLInputElement>(sliderId, root)
+  const valueDisplay = getRequiredElement<HTMLSpanElement>(valueDisplayId, root)
   
   const updateValue = () => {
     const value = parseFloat(slider.value)
@@ -82,4 +85,17 @@ export function setupParameterControl(
     },
     cleanup
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Create an element from an HTML string
+ */
+export function createElementFromHTML<T extends HTMLElement = HTMLElement>(html: string): T {
+  const template = document.createElement('template')
+  template.innerHTML = html.trim()
+  const element = template.content.firstElementChild
+  if (!element) {
+    throw new Error('Template produced no element')
+  }
+  return element as T
+}
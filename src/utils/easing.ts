@@ -0,0 +1,13 @@
+/**
+ * Easing curves for keyframed animation; each maps 0-1 onto 0-1
+ */
+
+import type { EasingName } from '../types'
+
+export const EASINGS: Record<EasingName, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  smoothstep: t => t * t * (3 - 2 * t)
+}
@@ -0,0 +1,61 @@
+/**
+ * Layout utilities - place the effect inside the canvas
+ */
+
+import type { LayoutOptions } from '../types'
+
+export interface LayoutRect {
+  // Center relative to the canvas center, in CSS pixels (y up)
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Size and position of the effect inside a viewWidth x viewHeight canvas
+ */
+export function computeLayout(viewWidth: number, viewHeight: number, layout: LayoutOptions): LayoutRect {
+  let width: number
+  let height: number
+
+  switch (layout.fit) {
+    case 'contain':
+      width = height = Math.min(viewWidth, viewHeight)
+      break
+    case 'cover':
+      width = height = Math.max(viewWidth, viewHeight)
+      break
+    case 'fill':
+      width = viewWidth
+      height = viewHeight
+      break
+    case 'fixed':
+      width = height = layout.size
+      break
+  }
+
+  // Anchor within the spare space (negative when the effect overflows, so cover
+  // crops towards the anchor too)
+  const [anchorX, anchorY] = layout.anchor
+  const [offsetX, offsetY] = layout.offset
+  return {
+    x: (anchorX - 0.5) * (viewWidth - width) + offsetX,
+    y: -((anchorY - 0.5) * (viewHeight - height) + offsetY),
+    width,
+    height
+  }
+}
+
+/**
+ * Copy a layout, including its tuples
+ */
+export function cloneLayout(layout: LayoutOptions): LayoutOptions {
+  return {
+    ...layout,
+    anchor: [...layout.anchor],
+    offset: [...layout.offset],
+    fadeCenter: [...layout.fadeCenter],
+    fadeRadius: [...layout.fadeRadius]
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * Mask utilities - rasterize images, SVG paths and text into a square mask texture
+ */
+
+import * as THREE from 'three'
+import type { AssetUrl, MaskChannel, MaskFit, MaskOptions, MaskSource } from '../types'
+import { MASK_CONFIG, THERMAL_EFFECT_CONFIG } from '../config/constants'
+import { loadImage } from './assets'
+
+// Dot-product weights the shader applies to the mask texel
+const CHANNEL_WEIGHTS: Record<MaskChannel, [number, number, number, number]> = {
+  alpha: [0, 0, 0, 1],
+  luminance: [0.2126, 0.7152, 0.0722, 0],
+  red: [1, 0, 0, 0],
+  green: [0, 1, 0, 0],
+  blue: [0, 0, 1, 0]
+}
+
+interface Rect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Weights for reading `channel` as dot(texel, weights)
+ */
+export function getChannelWeights(channel: MaskChannel, target = new THREE.Vector4()): THREE.Vector4 {
+  return target.fromArray(CHANNEL_WEIGHTS[channel])
+}
+
+/**
+ * Place a width x height box inside a size x size square
+ */
+function fitRect(width: number, height: number, size: number, fit: MaskFit, padding: number): Rect {
+  if (fit === 'stretch') {
+    return { x: 0, y: 0, width: size, height: size }
+  }
+
+  const inner = fit === 'contain' ? size * (1 - padding * 2) : size
+  const scale = fit === 'contain'
+    ? Math.min(inner / width, inner / height)
+    : Math.max(inner / width, inner / height)
+
+  return {
+    x: (size - width * scale) / 2,
+    y: (size - height * scale) / 2,
+    width: width * scale,
+    height: height * scale
+  }
+}
+
+function getSourceSize(image: CanvasImageSource): { width: number; height: number } {
+  if (image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight }
+  }
+  if (image instanceof HTMLVideoElement) {
+    return { width: image.videoWidth, height: image.videoHeight }
+  }
+  if (image instanceof SVGImageElement) {
+    return { width: image.width.baseVal.value, height: image.height.baseVal.value }
+  }
+  if ('displayWidth' in image) {
+    return { width: image.displayWidth, height: image.displayHeight }
+  }
+  return { width: image.width, height: image.height }
+}
+
+function drawImage(ctx: CanvasRenderingContext2D, image: CanvasImageSource, options: MaskOptions): void {
+  const { width, height } = getSourceSize(image)
+  if (width <= 0 || height <= 0) {
+    throw new Error('Mask image has no size; make sure it has finished loading')
+  }
+
+  const rect = fitRect(width, height, options.resolution, options.fit, options.padding)
+  ctx.drawImage(image, rect.x, rect.y, rect.width, rect.height)
+}
+
+function drawPath(
+  ctx: CanvasRenderingContext2D,
+  source: Extract<MaskSource, { type: 'svg' }>,
+  options: MaskOptions
+): void {
+  const path = new Path2D(source.path)
+  const [x, y, width, height] = source.viewBox ?? [0, 0, options.resolution, options.resolution]
+  const rect = fitRect(width, height, options.resolution, options.fit, options.padding)
+
+  ctx.translate(rect.x, rect.y)
+  ctx.scale(rect.width / width, rect.height / height)
+  ctx.translate(-x, -y)
+  ctx.fill(path, source.fillRule ?? 'nonzero')
+}
+
+async function drawText(
+  ctx: CanvasRenderingContext2D,
+  source: Extract<MaskSource, { type: 'text' }>,
+  options: MaskOptions
+): Promise<void> {
+  // Measure at a fixed size, then scale the glyph box into place
+  const fontSize = 200
+  const family = source.font ?? MASK_CONFIG.DEFAULT_FONT
+  const weight = source.fontWeight ?? MASK_CONFIG.DEFAULT_FONT_WEIGHT
+  const font = `${weight} ${fontSize}px ${family}`
+
+  if (document.fonts) {
+    try {
+      await document.fonts.load(font, source.text)
+    } catch (error) {
+      console.warn('Could not load mask font:', error)
+    }
+  }
+
+  ctx.font = font
+  const metrics = ctx.measureText(source.text)
+  const left = metrics.actualBoundingBoxLeft
+  const ascent = metrics.actualBoundingBoxAscent
+  const width = left + metrics.actualBoundingBoxRight
+  const height = ascent + metrics.actualBoundingBoxDescent
+  if (width <= 0 || height <= 0) return
+
+  const rect = fitRect(width, height, options.resolution, options.fit, options.padding)
+  ctx.translate(rect.x, rect.y)
+  ctx.scale(rect.width / width, rect.height / height)
+  ctx.fillText(source.text, left, ascent)
+}
+
+/**
+ * Rasterize a mask source into a square texture. Paths and text are drawn white on
+ * transparent, so every channel option reads them as coverage. URL masks are fetched
+ * with `load`, which defaults to the configured retries without progress tracking.
+ */
+export async function createMaskTexture(
+  source: MaskSource,
+  options: Partial<MaskOptions> = {},
+  load: (url: AssetUrl) => Promise<HTMLImageElement> = url => loadImage(url)
+): Promise<THREE.CanvasTexture> {
+  const resolved: MaskOptions = { ...THERMAL_EFFECT_CONFIG.mask, ...options }
+  const canvas = document.createElement('canvas')
+  canvas.width = canvas.height = resolved.resolution
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Canvas 2D is not available for mask rasterization')
+  }
+  ctx.fillStyle = '#ffffff'
+
+  switch (source.type) {
+    case 'url':
+      drawImage(ctx, await load(source.url), resolved)
+      break
+    case 'image':
+      drawImage(ctx, source.image, resolved)
+      break
+    case 'svg':
+      drawPath(ctx, source, resolved)
+      break
+    case 'text':
+      await drawText(ctx, source, resolved)
+      break
+  }
+
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.wrapS = texture.wrapT = THREE.ClampToEdgeWrapping
+  texture.colorSpace = THREE.NoColorSpace
+  texture.needsUpdate = true
+  return texture
+}
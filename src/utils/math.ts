@@ -9,12 +9,19 @@ export function lerp(a: number, b: number, t: number): number {
   return a + (b - a) * t
 }
 
+/**
+ * Scale a per-frame (60fps) multiplier to an arbitrary delta time
+ */
+export function decayFactor(perFrame: number, deltaTime: number): number {
+  return Math.pow(perFrame, deltaTime * 60)
+}
+
 /**
  * Convert frame-rate independent lerp speed to delta-time based factor
  */
 export function lerpSpeed(base: number, deltaTime: number): number {
-  const n = base * deltaTime * 60
-  return n > 1 ? 1 : n < 0 ? 0 : n
+  const n = base > 1 ? 1 : base < 0 ? 0 : base
+  return 1 - decayFactor(1 - n, deltaTime)
 }
 
 /**
@@ -24,6 +31,15 @@ export function clamp(value: number, min: number, max: number): number {
   return Math.min(Math.max(value, min), max)
 }
 
+/**
+ * Hermite interpolation between two edges, matching GLSL smoothstep
+ */
+export function smoothstep(edge0: number, edge1: number, x: number): number {
+  if (edge0 === edge1) return x < edge0 ? 0 : 1
+  const t = clamp((x - edge0) / (edge1 - edge0), 0, 1)
+  return t * t * (3 - 2 * t)
+}
+
 /**
  * Convert hex color string to RGB values normalized to 0-1 range
  */
@@ -38,6 +54,15 @@ export function hexToRGB(hex: string): [number, number, number] {
   return [r, g, b]
 }
 
+/**
+ * Convert normalized RGB values to a 6-digit hex string (without '#')
+ */
+export function rgbToHex([r, g, b]: readonly [number, number, number]): string {
+  return [r, g, b]
+    .map(c => Math.round(clamp(c, 0, 1) * 255).toString(16).padStart(2, '0'))
+    .join('')
+}
+
 /**
  * Convert screen coordinates to normalized device coordinates (-1 to 1)
  */
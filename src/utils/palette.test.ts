@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { bakePalette, getPaletteIssues, paletteFromColors, samplePalette } from './palette'
+
+const BLACK_TO_WHITE = [
+  { color: '#000000', position: 0, fade: 0 },
+  { color: '#ffffff', position: 0.5, fade: 0.2 }
+]
+
+describe('palette', () => {
+  it('accepts a valid palette and lists every problem of an invalid one', () => {
+    expect(getPaletteIssues(BLACK_TO_WHITE)).toEqual([])
+    expect(getPaletteIssues([
+      { color: 'nope', position: 0, fade: 0 },
+      { color: '#fff', position: 1.5, fade: -1 }
+    ])).toEqual([
+      'palette[0].color is not a valid hex color: nope',
+      'palette[1].position must be between 0 and 1',
+      'palette[1].fade must be a non-negative number'
+    ])
+    expect(getPaletteIssues([BLACK_TO_WHITE[0]], 'preset.palette')[0]).toMatch(/^preset\.palette must contain at least/)
+  })
+
+  it('blends each stop in over its fade window', () => {
+    expect(samplePalette(BLACK_TO_WHITE, 0.3)).toEqual([0, 0, 0])
+    expect(samplePalette(BLACK_TO_WHITE, 0.7)).toEqual([1, 1, 1])
+    const [r, g, b] = samplePalette(BLACK_TO_WHITE, 0.5)
+    expect(r).toBeCloseTo(0.5)
+    expect(g).toBe(r)
+    expect(b).toBe(r)
+  })
+
+  it('bakes opaque RGBA texels from t = 0 to t = 1', () => {
+    const data = bakePalette(BLACK_TO_WHITE, 3)
+
+    expect(Array.from(data)).toEqual([0, 0, 0, 255, 128, 128, 128, 255, 255, 255, 255, 255])
+  })
+
+  it('spaces colors evenly', () => {
+    expect(paletteFromColors(['#000', '#888', '#fff'])).toEqual([
+      { color: '#000', position: 0, fade: 0 },
+      { color: '#888', position: 0.5, fade: 0.5 },
+      { color: '#fff', position: 1, fade: 0.5 }
+    ])
+  })
+})
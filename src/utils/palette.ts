@@ -0,0 +1,166 @@
+/**
+ * Palette utilities - sampling, baking and validation of thermal gradient stops
+ */
+
+import * as THREE from 'three'
+import type { PaletteStop } from '../types'
+import { PALETTE_CONFIG } from '../config/constants'
+import { hexToRGB, lerp, smoothstep } from './math'
+
+type RGB = [number, number, number]
+
+const HEX_COLOR_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i
+
+/**
+ * Check that a string is a 3- or 6-digit hex color
+ */
+export function isHexColor(value: unknown): value is string {
+  return typeof value === 'string' && HEX_COLOR_PATTERN.test(value)
+}
+
+/**
+ * Describe every problem with a palette; an empty array means it is valid
+ */
+export function getPaletteIssues(stops: readonly PaletteStop[], path = 'palette'): string[] {
+  const issues: string[] = []
+
+  if (!Array.isArray(stops) || stops.length < PALETTE_CONFIG.MIN_STOPS) {
+    return [`${path} must contain at least ${PALETTE_CONFIG.MIN_STOPS} stops`]
+  }
+  if (stops.length > PALETTE_CONFIG.MAX_STOPS) {
+    issues.push(`${path} must contain at most ${PALETTE_CONFIG.MAX_STOPS} stops`)
+  }
+
+  stops.forEach((stop, index) => {
+    if (!isHexColor(stop.color)) {
+      issues.push(`${path}[${index}].color is not a valid hex color: ${String(stop.color)}`)
+    }
+    if (!Number.isFinite(stop.position) || stop.position < 0 || stop.position > 1) {
+      issues.push(`${path}[${index}].position must be between 0 and 1`)
+    }
+    if (!Number.isFinite(stop.fade) || stop.fade < 0) {
+      issues.push(`${path}[${index}].fade must be a non-negative number`)
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Build evenly spaced stops from a list of hex colors
+ */
+export function paletteFromColors(colors: readonly string[]): PaletteStop[] {
+  const step = 1 / Math.max(colors.length - 1, 1)
+  return colors.map((color, index) => ({
+    color,
+    position: index * step,
+    fade: index === 0 ? 0 : step
+  }))
+}
+
+/**
+ * Deep copy a palette
+ */
+export function clonePalette(stops: readonly PaletteStop[]): PaletteStop[] {
+  return stops.map(stop => ({ ...stop }))
+}
+
+/**
+ * Sample the gradient at temperature t, mirroring the blend chain the shader used:
+ * start from the first color and mix each later stop in over its fade window.
+ */
+function sampleRGB(colors: readonly RGB[], stops: readonly PaletteStop[], t: number): RGB {
+  const color: RGB = [...colors[0]]
+
+  for (let i = 1; i < stops.length; i++) {
+    const { position, fade } = stops[i]
+    const blend = smoothstep(position - fade * 0.5, position + fade * 0.5, t)
+    color[0] = lerp(color[0], colors[i][0], blend)
+    color[1] = lerp(color[1], colors[i][1], blend)
+    color[2] = lerp(color[2], colors[i][2], blend)
+  }
+
+  return color
+}
+
+/**
+ * Sample the palette at temperature t (0-1), returning normalized RGB
+ */
+export function samplePalette(stops: readonly PaletteStop[], t: number): RGB {
+  return sampleRGB(stops.map(stop => hexToRGB(stop.color)), stops, t)
+}
+
+/**
+ * Bake the palette into RGBA8 texel data, texel i covering t = i / (size - 1)
+ */
+export function bakePalette(
+  stops: readonly PaletteStop[],
+  size: number = PALETTE_CONFIG.TEXTURE_SIZE,
+  target: Uint8Array = new Uint8Array(size * 4)
+): Uint8Array {
+  const colors = stops.map(stop => hexToRGB(stop.color))
+
+  for (let i = 0; i < size; i++) {
+    const [r, g, b] = sampleRGB(colors, stops, i / (size - 1))
+    target[i * 4] = Math.round(r * 255)
+    target[i * 4 + 1] = Math.round(g * 255)
+    target[i * 4 + 2] = Math.round(b * 255)
+    target[i * 4 + 3] = 255
+  }
+
+  return target
+}
+
+/**
+ * Create a 1D (size x 1) gradient texture for the thermal shader
+ */
+export function createPaletteTexture(
+  stops: readonly PaletteStop[],
+  size: number = PALETTE_CONFIG.TEXTURE_SIZE
+): THREE.DataTexture {
+  const texture = new THREE.DataTexture(bakePalette(stops, size), size, 1, THREE.RGBAFormat)
+  texture.magFilter = THREE.LinearFilter
+  texture.minFilter = THREE.LinearFilter
+  texture.wrapS = texture.wrapT = THREE.ClampToEdgeWrapping
+  texture.needsUpdate = true
+  return texture
+}
+
+/**
+ * Re-bake an existing palette texture in place
+ */
+export function updatePaletteTexture(texture: THREE.DataTexture, stops: readonly PaletteStop[]): void {
+  bakePalette(stops, texture.image.width, texture.image.data as Uint8Array)
+  texture.needsUpdate = true
+}
+
+/**
+ * Linearly blend two baked palettes into `target`
+ */
+export function blendPaletteData(
+  from: Uint8Array,
+  to: Uint8Array,
+  t: number,
+  target: Uint8Array
+): Uint8Array {
+  for (let i = 0; i < target.length; i++) {
+    target[i] = Math.round(lerp(from[i], to[i], t))
+  }
+  return target
+}
+
+/**
+ * CSS linear-gradient preview of the palette
+ */
+export function paletteToCSSGradient(stops: readonly PaletteStop[], samples = 32): string {
+  const colors = stops.map(stop => hexToRGB(stop.color))
+  const parts: string[] = []
+
+  for (let i = 0; i < samples; i++) {
+    const t = i / (samples - 1)
+    const [r, g, b] = sampleRGB(colors, stops, t).map(c => Math.round(c * 255))
+    parts.push(`rgb(${r}, ${g}, ${b}) ${(t * 100).toFixed(1)}%`)
+  }
+
+  return `linear-gradient(to right, ${parts.join(', ')})`
+}
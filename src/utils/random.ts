@@ -0,0 +1,24 @@
+/**
+ * Seedable random numbers for deterministic rendering
+ */
+
+/**
+ * Mulberry32: small, fast 32-bit PRNG returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Seeded generator, or Math.random when `seed` is null
+ */
+export function createRandom(seed: number | null): () => number {
+  return seed === null ? Math.random : createSeededRandom(seed)
+}
@@ -0,0 +1,91 @@
+/**
+ * HTML templates for the embeddable effect and its HUD
+ */
+
+import type { EffectParameters, ParameterControl } from '../types'
+import { PARAMETER_RANGES } from '../config/constants'
+
+/**
+ * Markup for a single effect instance
+ */
+export function createEffectTemplate(options: { controls: boolean }): string {
+  return `
+    <div class="canvas-wrapper">
+      <!-- WebGL container - this is where the Three.js magic happens -->
+      <div class="webgl-canvas">
+        <!-- Hitbox for capturing mouse/pointer interactions -->
+        <div class="interaction-area"></div>
+      </div>
+      ${options.controls ? `
+      <!-- Simple play/pause button for video control -->
+      <div class="controls">
+        <button class="control-button">Play/Pause</button>
+      </div>` : ''}
+    </div>
+  `
+}
+
+/**
+ * Markup for one HUD slider
+ */
+function createControlTemplate(
+  idPrefix: string,
+  control: ParameterControl,
+  value: number
+): string {
+  const { min, max, step } = PARAMETER_RANGES[control.param]
+  const inputId = `${idPrefix}-${control.id}`
+
+  return `
+    <div class="control-group">
+      <label for="${inputId}">${control.label}</label>
+      <input type="range" id="${inputId}" min="${min}" max="${max}" step="${step}" value="${value}">
+      <span class="value-display" id="${idPrefix}-${control.valueId}">${value.toFixed(1)}</span>
+    </div>
+  `
+}
+
+/**
+ * Markup for the parameter HUD
+ *
+ * Element ids are prefixed per instance so several HUDs can share a page.
+ */
+export function createHUDTemplate(
+  idPrefix: string,
+  controls: readonly ParameterControl[],
+  parameters: EffectParameters
+): string {
+  const renderGroup = (group: ParameterControl['group']) => controls
+    .filter(control => control.group === group)
+    .map(control => createControlTemplate(idPrefix, control, parameters[control.param]))
+    .join('')
+
+  return `
+    <div class="hud">
+      <div class="hud-header">
+        <h3>Effect Parameters</h3>
+        <button class="hud-toggle" id="${idPrefix}-hud-toggle">−</button>
+      </div>
+      <div class="hud-content" id="${idPrefix}-hud-content">
+        ${renderGroup('visual')}
+
+        <hr class="hud-separator">
+        <h4 class="section-title">Behavioral Effects</h4>
+
+        ${renderGroup('behavioral')}
+${controls.some(control => control.group === 'field') ? `
+        <hr class="hud-separator">
+        <h4 class="section-title">Procedural Field</h4>
+
+        ${renderGroup('field')}
+` : ''}
+        <!-- Extra HUD sections (palette editor, ...) are mounted here -->
+        <div class="hud-extensions" id="${idPrefix}-hud-extensions"></div>
+
+        <div class="control-group">
+          <button class="reset-button" id="${idPrefix}-reset-params">Reset to Defaults</button>
+        </div>
+      </div>
+    </div>
+  `
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import { buildShareUrl, decodeState, encodeState, mergeState } from './urlState'
+
+describe('urlState', () => {
+  it('round-trips parameters, preset and palette', () => {
+    const state = {
+      preset: 'Deep Ice',
+      parameters: { effectIntensity: 1.25, gradientShift: -0.1 },
+      palette: [
+        { color: '000000', position: 0, fade: 0 },
+        { color: '7fd3ff', position: 0.8, fade: 0.3 }
+      ]
+    }
+
+    expect(decodeState(encodeState(state))).toEqual(state)
+  })
+
+  it('only reads keys with its own prefix', () => {
+    const encoded = encodeState({ parameters: { reactivity: 2 } }, 'a-')
+
+    expect(decodeState(encoded, 'a-')).toEqual({ parameters: { reactivity: 2 } })
+    expect(decodeState(encoded, 'b-')).toBeNull()
+    expect(decodeState(`#${encoded}`, 'a-')?.parameters.reactivity).toBe(2)
+  })
+
+  it('drops an invalid palette and ignores non-numeric parameters', () => {
+    const state = decodeState('effectIntensity=abc&noiseScale=2&palette=zzz:0:0')
+
+    expect(state).toEqual({ parameters: { noiseScale: 2 }, palette: undefined })
+  })
+
+  it('replaces its own keys and keeps unrelated ones', () => {
+    const merged = mergeState('?utm=1&effectIntensity=0.5&other=x', 'effectIntensity=1.5')
+
+    expect(merged).toBe('utm=1&other=x&effectIntensity=1.5')
+  })
+
+  it('writes the state into the hash or the query', () => {
+    const state = { parameters: { heatDecay: 0.9 } }
+
+    expect(buildShareUrl('https://example.com/page?x=1', state, 'hash')).toBe('https://example.com/page?x=1#heatDecay=0.9')
+    expect(buildShareUrl('https://example.com/page?x=1', state, 'query')).toBe('https://example.com/page?x=1&heatDecay=0.9')
+  })
+})
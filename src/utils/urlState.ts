@@ -0,0 +1,138 @@
+/**
+ * URL state encoding - serializes the current look into a compact query/hash string
+ *
+ * Format: `preset=Ice&effectIntensity=1.2&palette=000000:0:0,7fd3ff:0.8:0.3`
+ * Every key is prefixed with the instance prefix so several effects can share a URL.
+ */
+
+import type { EffectParameters, PaletteStop, ShareableState, ThermalEffectConfig } from '../types'
+import { PARAMETER_RANGES, URL_STATE_CONFIG } from '../config/constants'
+import { getPaletteIssues } from './palette'
+
+const PARAMETER_NAMES = Object.keys(PARAMETER_RANGES) as Array<keyof EffectParameters>
+const PRESET_KEY = 'preset'
+const PALETTE_KEY = 'palette'
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(URL_STATE_CONFIG.DECIMALS)).toString()
+}
+
+function encodePalette(stops: readonly PaletteStop[]): string {
+  return stops
+    .map(stop => [stop.color.replace(/^#/, ''), formatNumber(stop.position), formatNumber(stop.fade)].join(':'))
+    .join(',')
+}
+
+function decodePalette(value: string): PaletteStop[] | undefined {
+  const stops = value.split(',').map(part => {
+    const [color, position, fade] = part.split(':')
+    return { color, position: parseFloat(position), fade: parseFloat(fade) }
+  })
+  return getPaletteIssues(stops).length === 0 ? stops : undefined
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value)
+  } catch {
+    return value
+  }
+}
+
+function isOwnKey(key: string, prefix: string): boolean {
+  if (!key.startsWith(prefix)) return false
+  const name = key.slice(prefix.length)
+  return name === PRESET_KEY || name === PALETTE_KEY || (PARAMETER_NAMES as string[]).includes(name)
+}
+
+/**
+ * Serialize state into `key=value` pairs joined by '&' (no leading '#' or '?')
+ */
+export function encodeState(state: ShareableState, prefix = ''): string {
+  const pairs: string[] = []
+
+  if (state.preset) {
+    pairs.push(`${prefix}${PRESET_KEY}=${encodeURIComponent(state.preset)}`)
+  }
+
+  PARAMETER_NAMES.forEach(name => {
+    const value = state.parameters[name]
+    if (value !== undefined) {
+      pairs.push(`${prefix}${name}=${formatNumber(value)}`)
+    }
+  })
+
+  if (state.palette) {
+    pairs.push(`${prefix}${PALETTE_KEY}=${encodePalette(state.palette)}`)
+  }
+
+  return pairs.join('&')
+}
+
+/**
+ * Parse state from a query or hash string. Returns null if it holds none of our keys.
+ * Values are not clamped here; ParameterController applies PARAMETER_RANGES.
+ */
+export function decodeState(source: string, prefix = ''): ShareableState | null {
+  const params = new URLSearchParams(source.replace(/^[#?]/, ''))
+  const state: ShareableState = { parameters: {} }
+  let found = false
+
+  PARAMETER_NAMES.forEach(name => {
+    const raw = params.get(`${prefix}${name}`)
+    if (raw === null) return
+
+    const value = parseFloat(raw)
+    if (Number.isFinite(value)) {
+      state.parameters[name] = value
+      found = true
+    }
+  })
+
+  const preset = params.get(`${prefix}${PRESET_KEY}`)
+  if (preset) {
+    state.preset = preset
+    found = true
+  }
+
+  const palette = params.get(`${prefix}${PALETTE_KEY}`)
+  if (palette) {
+    state.palette = decodePalette(palette)
+    found = found || state.palette !== undefined
+  }
+
+  return found ? state : null
+}
+
+/**
+ * Replace our keys inside an existing query/hash string, leaving other keys untouched
+ */
+export function mergeState(source: string, encoded: string, prefix = ''): string {
+  const others = source
+    .replace(/^[#?]/, '')
+    .split('&')
+    .filter(pair => pair !== '' && !isOwnKey(safeDecode(pair.split('=')[0]), prefix))
+
+  return [...others, ...(encoded ? [encoded] : [])].join('&')
+}
+
+/**
+ * Build a URL for `state` on top of `href`, keeping unrelated keys
+ */
+export function buildShareUrl(
+  href: string,
+  state: ShareableState,
+  mode: ThermalEffectConfig['urlState']['mode'],
+  prefix = ''
+): string {
+  const url = new URL(href)
+  const source = mode === 'hash' ? url.hash : url.search
+  const merged = mergeState(source, encodeState(state, prefix), prefix)
+
+  if (mode === 'hash') {
+    url.hash = merged
+  } else {
+    url.search = merged
+  }
+  return url.toString()
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { createWebM } from './webm'
+
+interface Element {
+  id: number
+  data: Uint8Array
+}
+
+function readVint(bytes: Uint8Array, offset: number, keepMarker: boolean): { value: number; length: number } {
+  const first = bytes[offset]
+  let length = 1
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++
+  let value = keepMarker ? first : first & (0xff >> length)
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i]
+  return { value, length }
+}
+
+// Split a run of EBML elements, checking that their sizes tile the bytes exactly
+function readElements(bytes: Uint8Array): Element[] {
+  const elements: Element[] = []
+  let offset = 0
+  while (offset < bytes.length) {
+    const id = readVint(bytes, offset, true)
+    const size = readVint(bytes, offset + id.length, false)
+    const start = offset + id.length + size.length
+    elements.push({ id: id.value, data: bytes.subarray(start, start + size.value) })
+    offset = start + size.value
+  }
+  expect(offset).toBe(bytes.length)
+  return elements
+}
+
+function child(elements: Element[], id: number): Element {
+  const found = elements.find(element => element.id === id)
+  if (!found) throw new Error(`Missing element 0x${id.toString(16)}`)
+  return found
+}
+
+function readUint(data: Uint8Array): number {
+  return data.reduce((value, byte) => value * 256 + byte, 0)
+}
+
+describe('createWebM', () => {
+  it('writes one cluster per key frame with frame-exact block timecodes', async () => {
+    const fps = 30
+    const frames = Array.from({ length: 7 }, (_, index) => ({
+      data: new Uint8Array(index === 2 ? 300 : 5).fill(index),
+      timestamp: Math.round(index * 1e6 / fps),
+      keyFrame: index % 3 === 0
+    }))
+    const blob = createWebM({ codecId: 'V_VP9', width: 1280, height: 720, fps }, frames)
+    expect(blob.type).toBe('video/webm')
+
+    const [header, segment] = readElements(new Uint8Array(await blob.arrayBuffer()))
+    expect(header.id).toBe(0x1a45dfa3)
+    expect(new TextDecoder().decode(child(readElements(header.data), 0x4282).data)).toBe('webm')
+    expect(segment.id).toBe(0x18538067)
+
+    const body = readElements(segment.data)
+    const info = readElements(child(body, 0x1549a966).data)
+    expect(readUint(child(info, 0x2ad7b1).data)).toBe(1_000_000)
+    expect(new DataView(child(info, 0x4489).data.slice().buffer).getFloat64(0)).toBeCloseTo(7000 / 30)
+
+    const track = readElements(child(readElements(child(body, 0x1654ae6b).data), 0xae).data)
+    expect(new TextDecoder().decode(child(track, 0x86).data)).toBe('V_VP9')
+    const video = readElements(child(track, 0xe0).data)
+    expect(readUint(child(video, 0xb0).data)).toBe(1280)
+    expect(readUint(child(video, 0xba).data)).toBe(720)
+
+    const blocks = body.filter(element => element.id === 0x1f43b675).flatMap(cluster => {
+      const [timecode, ...rest] = readElements(cluster.data)
+      expect(timecode.id).toBe(0xe7)
+      return rest.map(block => {
+        const view = new DataView(block.data.buffer, block.data.byteOffset, block.data.byteLength)
+        return {
+          track: block.data[0],
+          time: readUint(timecode.data) + view.getInt16(1),
+          key: block.data[3] === 0x80,
+          size: block.data.length - 4
+        }
+      })
+    })
+    expect(body.filter(element => element.id === 0x1f43b675)).toHaveLength(3)
+    expect(blocks.map(block => block.time)).toEqual([0, 33, 67, 100, 133, 167, 200])
+    expect(blocks.map(block => block.key)).toEqual(frames.map(frame => frame.keyFrame))
+    expect(blocks.map(block => block.size)).toEqual(frames.map(frame => frame.data.length))
+    expect(blocks.every(block => block.track === 0x81)).toBe(true)
+  })
+
+  it('starts a new cluster before block offsets overflow', async () => {
+    const frames = [0, 20_000, 40_000].map(ms => ({ data: new Uint8Array(1), timestamp: ms * 1000, keyFrame: ms === 0 }))
+    const blob = createWebM({ codecId: 'V_VP8', width: 2, height: 2, fps: 1 }, frames)
+
+    const [, segment] = readElements(new Uint8Array(await blob.arrayBuffer()))
+    const clusters = readElements(segment.data).filter(element => element.id === 0x1f43b675)
+    expect(clusters.map(cluster => readUint(readElements(cluster.data)[0].data))).toEqual([0, 40_000])
+  })
+})
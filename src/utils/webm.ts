@@ -0,0 +1,182 @@
+/**
+ * Minimal WebM writer - muxes already encoded video frames into a single-track file
+ *
+ * Timestamps are kept at millisecond resolution (the WebM default). A new cluster starts
+ * at every key frame, and before block offsets would overflow. There is no cue index,
+ * which players only need for fast seeking.
+ */
+
+export interface WebMTrack {
+  // Matroska codec ID, e.g. 'V_VP9'
+  codecId: string
+  width: number
+  height: number
+  fps: number
+}
+
+export interface WebMFrame {
+  data: Uint8Array
+  // Presentation time in microseconds
+  timestamp: number
+  keyFrame: boolean
+}
+
+// Element IDs, with their length marker bits as they appear in the file
+const EBML = 0x1a45dfa3
+const EBML_VERSION = 0x4286
+const EBML_READ_VERSION = 0x42f7
+const EBML_MAX_ID_LENGTH = 0x42f2
+const EBML_MAX_SIZE_LENGTH = 0x42f3
+const DOC_TYPE = 0x4282
+const DOC_TYPE_VERSION = 0x4287
+const DOC_TYPE_READ_VERSION = 0x4285
+const SEGMENT = 0x18538067
+const INFO = 0x1549a966
+const TIMECODE_SCALE = 0x2ad7b1
+const MUXING_APP = 0x4d80
+const WRITING_APP = 0x5741
+const DURATION = 0x4489
+const TRACKS = 0x1654ae6b
+const TRACK_ENTRY = 0xae
+const TRACK_NUMBER = 0xd7
+const TRACK_UID = 0x73c5
+const TRACK_TYPE = 0x83
+const FLAG_LACING = 0x9c
+const CODEC_ID = 0x86
+const DEFAULT_DURATION = 0x23e383
+const VIDEO = 0xe0
+const PIXEL_WIDTH = 0xb0
+const PIXEL_HEIGHT = 0xba
+const CLUSTER = 0x1f43b675
+const TIMECODE = 0xe7
+const SIMPLE_BLOCK = 0xa3
+
+// Block timecodes are signed 16-bit offsets from their cluster's timecode
+const MAX_BLOCK_OFFSET = 0x7fff
+
+const encoder = new TextEncoder()
+
+function byteLength(parts: readonly Uint8Array[]): number {
+  return parts.reduce((sum, part) => sum + part.length, 0)
+}
+
+function encodeId(id: number): Uint8Array {
+  const length = id > 0xffffff ? 4 : id > 0xffff ? 3 : id > 0xff ? 2 : 1
+  const bytes = new Uint8Array(length)
+  for (let i = 0; i < length; i++) {
+    bytes[i] = Math.floor(id / 2 ** (8 * (length - 1 - i))) & 0xff
+  }
+  return bytes
+}
+
+/**
+ * Variable-length size: the count of leading zero bits gives the length
+ */
+function encodeSize(size: number): Uint8Array {
+  let length = 1
+  // All ones is reserved for "unknown size"
+  while (size >= 2 ** (7 * length) - 1) length++
+  if (length > 8) {
+    throw new Error(`WebM element is too large: ${size} bytes`)
+  }
+
+  const bytes = new Uint8Array(length)
+  let rest = size
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = rest % 256
+    rest = Math.floor(rest / 256)
+  }
+  bytes[0] |= 1 << (8 - length)
+  return bytes
+}
+
+function element(id: number, body: readonly Uint8Array[]): Uint8Array[] {
+  return [encodeId(id), encodeSize(byteLength(body)), ...body]
+}
+
+function uintElement(id: number, value: number): Uint8Array[] {
+  const bytes: number[] = []
+  let rest = value
+  do {
+    bytes.unshift(rest % 256)
+    rest = Math.floor(rest / 256)
+  } while (rest > 0)
+  return element(id, [new Uint8Array(bytes)])
+}
+
+function floatElement(id: number, value: number): Uint8Array[] {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setFloat64(0, value)
+  return element(id, [bytes])
+}
+
+function stringElement(id: number, value: string): Uint8Array[] {
+  return element(id, [encoder.encode(value)])
+}
+
+function simpleBlock(frame: WebMFrame, offset: number): Uint8Array[] {
+  const header = new Uint8Array(4)
+  // Track number 1 as a one-byte size, then the signed offset and the flags
+  header[0] = 0x81
+  new DataView(header.buffer).setInt16(1, offset)
+  header[3] = frame.keyFrame ? 0x80 : 0
+  return element(SIMPLE_BLOCK, [header, frame.data])
+}
+
+/**
+ * Pack encoded `frames`, in presentation order, into a WebM file
+ */
+export function createWebM(track: WebMTrack, frames: readonly WebMFrame[]): Blob {
+  const header = element(EBML, [
+    ...uintElement(EBML_VERSION, 1),
+    ...uintElement(EBML_READ_VERSION, 1),
+    ...uintElement(EBML_MAX_ID_LENGTH, 4),
+    ...uintElement(EBML_MAX_SIZE_LENGTH, 8),
+    ...stringElement(DOC_TYPE, 'webm'),
+    ...uintElement(DOC_TYPE_VERSION, 2),
+    ...uintElement(DOC_TYPE_READ_VERSION, 2)
+  ])
+
+  const frameDuration = 1e6 / track.fps
+  const last = frames[frames.length - 1]
+  const info = element(INFO, [
+    ...uintElement(TIMECODE_SCALE, 1_000_000),
+    ...stringElement(MUXING_APP, 'thermal-effect'),
+    ...stringElement(WRITING_APP, 'thermal-effect'),
+    ...floatElement(DURATION, last ? (last.timestamp + frameDuration) / 1000 : 0)
+  ])
+
+  const tracks = element(TRACKS, element(TRACK_ENTRY, [
+    ...uintElement(TRACK_NUMBER, 1),
+    ...uintElement(TRACK_UID, 1),
+    ...uintElement(TRACK_TYPE, 1),
+    ...uintElement(FLAG_LACING, 0),
+    ...stringElement(CODEC_ID, track.codecId),
+    ...uintElement(DEFAULT_DURATION, Math.round(frameDuration * 1000)),
+    ...element(VIDEO, [
+      ...uintElement(PIXEL_WIDTH, track.width),
+      ...uintElement(PIXEL_HEIGHT, track.height)
+    ])
+  ]))
+
+  const clusters: Uint8Array[] = []
+  let cluster: Uint8Array[] = []
+  let clusterTime = 0
+  const closeCluster = () => {
+    if (cluster.length > 0) clusters.push(...element(CLUSTER, cluster))
+  }
+
+  frames.forEach(frame => {
+    const time = Math.round(frame.timestamp / 1000)
+    if (cluster.length === 0 || frame.keyFrame || time - clusterTime > MAX_BLOCK_OFFSET) {
+      closeCluster()
+      clusterTime = time
+      cluster = uintElement(TIMECODE, time)
+    }
+    cluster.push(...simpleBlock(frame, time - clusterTime))
+  })
+  closeCluster()
+
+  const segment = element(SEGMENT, [...info, ...tracks, ...clusters])
+  return new Blob([...header, ...segment], { type: 'video/webm' })
+}
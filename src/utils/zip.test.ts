@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { createZip } from './zip'
+
+interface StoredFile {
+  name: string
+  crc: number
+  data: Uint8Array
+}
+
+// Walk the central directory and read every file back through its local header
+function readZip(bytes: Uint8Array): StoredFile[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const count = view.getUint16(end + 10, true)
+  let offset = view.getUint32(end + 16, true)
+  const decoder = new TextDecoder()
+  const files: StoredFile[] = []
+
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(offset, true)).toBe(0x02014b50)
+    const crc = view.getUint32(offset + 16, true)
+    const size = view.getUint32(offset + 20, true)
+    const nameLength = view.getUint16(offset + 28, true)
+    const local = view.getUint32(offset + 42, true)
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50)
+    const localNameLength = view.getUint16(local + 26, true)
+    const start = local + 30 + localNameLength
+    files.push({
+      name: decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)),
+      crc,
+      data: bytes.slice(start, start + size)
+    })
+    offset += 46 + nameLength
+  }
+
+  return files
+}
+
+describe('createZip', () => {
+  it('stores every entry uncompressed with its CRC-32', async () => {
+    const encoder = new TextEncoder()
+    const blob = createZip([
+      { name: 'frame-00001.png', data: encoder.encode('hello') },
+      { name: 'frame-00002.png', data: new Uint8Array(0) }
+    ])
+
+    expect(blob.type).toBe('application/zip')
+    const files = readZip(new Uint8Array(await blob.arrayBuffer()))
+    expect(files.map(file => file.name)).toEqual(['frame-00001.png', 'frame-00002.png'])
+    expect(new TextDecoder().decode(files[0].data)).toBe('hello')
+    expect(files[0].crc).toBe(0x3610a686)
+    expect(files[1].data.length).toBe(0)
+    expect(files[1].crc).toBe(0)
+  })
+
+  it('writes a valid empty archive', async () => {
+    expect(readZip(new Uint8Array(await createZip([]).arrayBuffer()))).toEqual([])
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Minimal ZIP writer - stores files uncompressed (PNGs are already compressed)
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+// DOS date for 1980-01-01, the earliest a ZIP can express; frames carry no real timestamp
+const DOS_DATE = (1 << 5) | 1
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Pack `entries` into a ZIP archive. Archives over 4 GB (ZIP64) are not supported.
+ */
+export function createZip(entries: readonly ZipEntry[]): Blob {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const directory: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    // Local file header
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(12, DOS_DATE, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, size, true)
+    local.setUint32(22, size, true)
+    local.setUint16(26, name.length, true)
+    parts.push(local.buffer, name, entry.data)
+
+    // Central directory record
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(14, DOS_DATE, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, size, true)
+    central.setUint32(24, size, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    directory.push(new Uint8Array(central.buffer), name)
+
+    offset += 30 + name.length + size
+  })
+
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...directory, end.buffer], { type: 'application/zip' })
+}